@@ -14,6 +14,7 @@ import {
 	getPredictionsForMatch,
 	getPastMatches,
 	getMatchDetails,
+	getActiveMatch,
 } from './db'
 
 config() // Load env vars
@@ -42,9 +43,6 @@ function scoreDifference(pred: Score, actual: Score): number {
 	return Math.abs(pred.runs - actual.runs)
 }
 
-// Global state for the active match
-let currentMatch: { id: string } | null = null
-
 const client = new Client({ intents: [GatewayIntentBits.Guilds] })
 
 // Define commands
@@ -133,6 +131,8 @@ client.on('interactionCreate', async (interaction) => {
 	if (!interaction.isChatInputCommand()) return
 	const userId = interaction.user.id
 	const isAdmin = ADMIN_IDS.includes(userId)
+	// Resolve the active match from the database so it survives restarts
+	const currentMatch = getActiveMatch()
 
 	switch (interaction.commandName) {
 		case 'setup': {
@@ -158,7 +158,6 @@ client.on('interactionCreate', async (interaction) => {
 			const matchDate = interaction.options.getString('date', true)
 
 			insertMatch({ id, teamName, toss, venue, matchDate, isOpen: true })
-			currentMatch = { id }
 			await interaction.reply(`Match setup complete with ID: ${id}`)
 			break
 		}
@@ -311,7 +310,6 @@ client.on('interactionCreate', async (interaction) => {
 				? `${winner.username} wins with a prediction of ${winner.runs}/${winner.wickets}`
 				: 'No predictions were made.'
 			await interaction.reply(resultMsg)
-			currentMatch = null
 			break
 		}
 		case 'past': {
@@ -365,8 +363,24 @@ client.on('interactionCreate', async (interaction) => {
 	}
 })
 
-client.once('ready', () => {
+client.once('ready', async () => {
 	console.log(`Logged in as ${client.user?.tag}!`)
+
+	// Report any match left running before the restart
+	const recovered = getActiveMatch()
+	if (!recovered) {
+		console.log('No active match to recover.')
+		return
+	}
+	const notice = `Recovered active match ${recovered.id} (${recovered.teamName}, ${recovered.matchDate})`
+	console.log(notice)
+	for (const adminId of ADMIN_IDS) {
+		try {
+			await client.users.send(adminId, `Bot restarted. ${notice}`)
+		} catch (error) {
+			console.error(`Could not notify admin ${adminId}:`, error)
+		}
+	}
 })
 
 client.login(process.env.BOT_TOKEN)
@@ -113,6 +113,17 @@ export const getPastMatches = (): MatchRow[] => {
   return stmt.all() as MatchRow[];
 };
 
+// The active match is the most recently created one that has not been settled yet
+export const getActiveMatch = (): MatchRow | null => {
+  const stmt = db.prepare(`
+    SELECT * FROM matches
+    WHERE actualRuns IS NULL
+    ORDER BY id DESC
+    LIMIT 1
+  `);
+  return (stmt.get() as MatchRow | undefined) ?? null;
+};
+
 export const getMatchDetails = (
   matchId: string
 ): { match: MatchRow; predictions: PredictionRow[] } | null => {
@@ -0,0 +1,265 @@
+import { createServer, Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import {
+	getActiveMatches,
+	getAdminGrants,
+	getAllUserStats,
+	getAnswersForQuestion,
+	getMatch,
+	getPastMatches,
+	getPredictionHistory,
+	getPredictionsForMatch,
+	getQuestionsForMatch,
+	getUserStats,
+	isDatabaseReady,
+	MatchRow,
+} from './db';
+import { buildExport } from './export';
+import { averagesByRule, buildLeaderboard } from './leaderboard';
+import { isSealed } from './lifecycle';
+import { isIsoDate } from './scheduler';
+import { getScoringRule, isScoringRuleId } from './scoring';
+import { getSeasonScoringRule } from './settings';
+
+// Read-only JSON API served next to the bot, for dashboards and stream overlays. Everything
+// except /health and /ready belongs to a guild:
+//
+//   GET /health                                 the process is up
+//   GET /ready                                  the database answers and the bot is logged in
+//   GET /api/guilds/:guildId/matches/current    open and locked matches with their predictions
+//   GET /api/guilds/:guildId/matches/past       settled and abandoned matches
+//   GET /api/guilds/:guildId/matches/:matchId   one match with predictions and questions
+//   GET /api/guilds/:guildId/users/:userId/stats
+//   GET /api/guilds/:guildId/leaderboard        ?last=N&from=YYYY-MM-DD&to=YYYY-MM-DD&scoring=rule
+//   GET /api/guilds/:guildId/admins             admin grants (admin only)
+//   GET /api/guilds/:guildId/export             same data as /export (admin only)
+//
+// Admin data (the routes above, audit trails, sealed predictions before the poll closes) is
+// only served with `Authorization: Bearer <API_TOKEN>`, and not at all when API_TOKEN is unset.
+
+export const DEFAULT_API_PORT = 9099;
+
+export interface ApiOptions {
+	port: number;
+	token?: string;
+	// Whether the bot is logged in to Discord
+	isReady(): boolean;
+}
+
+export interface ApiRequest {
+	method: string;
+	url: string;
+	authorization?: string;
+}
+
+export interface ApiResponse {
+	status: number;
+	body: unknown;
+}
+
+interface RouteContext {
+	guildId: string;
+	// Path segments captured after the guild ID
+	params: string[];
+	query: URLSearchParams;
+	admin: boolean;
+}
+
+interface Route {
+	pattern: RegExp;
+	adminOnly?: boolean;
+	handle(ctx: RouteContext): ApiResponse;
+}
+
+const ok = (body: unknown): ApiResponse => ({ status: 200, body });
+const fail = (status: number, error: string): ApiResponse => ({ status, body: { error } });
+
+// Helper: a match with its predictions and questions. Picks and answers of a sealed match
+// stay hidden from non-admins until the poll closes, as in /details.
+function matchDetails(match: MatchRow, admin: boolean) {
+	const sealed = isSealed(match);
+	const hidden = sealed && !admin;
+	return {
+		match,
+		sealed,
+		predictions: getPredictionsForMatch(match.id).map((p) =>
+			hidden ? { userId: p.userId, username: p.username, submittedAt: p.submittedAt } : p
+		),
+		questions: getQuestionsForMatch(match.id).map((q) => ({
+			...q,
+			answers: hidden ? [] : getAnswersForQuestion(q.id),
+		})),
+		...(admin ? { history: getPredictionHistory(match.id) } : {}),
+	};
+}
+
+const routes: Route[] = [
+	{
+		pattern: /^\/matches\/current$/,
+		handle: ({ guildId, admin }) =>
+			ok({ matches: getActiveMatches(guildId).map((m) => matchDetails(m, admin)) }),
+	},
+	{
+		pattern: /^\/matches\/past$/,
+		handle: ({ guildId }) => ok({ matches: getPastMatches(guildId) }),
+	},
+	{
+		pattern: /^\/matches\/([^/]+)$/,
+		handle: ({ guildId, params, admin }) => {
+			const match = getMatch(params[0]);
+			if (!match || match.guildId !== guildId) return fail(404, 'Match not found.');
+			return ok(matchDetails(match, admin));
+		},
+	},
+	{
+		// Each match is scored with its own rule, so results are reported per rule as in /mystats
+		pattern: /^\/users\/([^/]+)\/stats$/,
+		handle: ({ guildId, params }) => {
+			const stats = getUserStats(params[0], guildId);
+			return ok({
+				userId: params[0],
+				predictions: stats.length,
+				rules: averagesByRule(stats).map(({ rule, predictions, average }) => ({
+					scoringRule: rule.id,
+					name: rule.name,
+					predictions,
+					average,
+				})),
+			});
+		},
+	},
+	{
+		pattern: /^\/leaderboard$/,
+		handle: ({ guildId, query }) => {
+			const last = query.get('last');
+			const fromDate = query.get('from');
+			const toDate = query.get('to');
+			const scoring = query.get('scoring');
+			if (last !== null && !/^[1-9]\d*$/.test(last)) {
+				return fail(400, 'last must be a positive whole number.');
+			}
+			if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+				return fail(400, 'Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).');
+			}
+			if (scoring && !isScoringRuleId(scoring)) return fail(400, `Unknown scoring rule "${scoring}".`);
+			const rule = scoring ? getScoringRule(scoring) : getSeasonScoringRule(guildId);
+			const userStats = getAllUserStats({
+				guildId,
+				lastMatches: last ? Number(last) : undefined,
+				fromDate: fromDate ?? undefined,
+				toDate: toDate ?? undefined,
+				scoringRule: rule.id,
+			});
+			return ok({
+				scoringRule: rule.id,
+				lowerIsBetter: rule.lowerIsBetter,
+				entries: buildLeaderboard(userStats, rule).map((entry, idx) => ({
+					rank: idx + 1,
+					userId: entry.userId,
+					username: entry.username,
+					matches: entry.matches,
+					average: entry.average,
+					wins: entry.wins,
+					best: { matchId: entry.best.matchId, runs: entry.best.runs, wickets: entry.best.wickets },
+				})),
+			});
+		},
+	},
+	{
+		pattern: /^\/admins$/,
+		adminOnly: true,
+		handle: ({ guildId }) => ok({ grants: getAdminGrants(guildId) }),
+	},
+	{
+		pattern: /^\/export$/,
+		adminOnly: true,
+		handle: ({ guildId, query }) => {
+			const fromDate = query.get('from');
+			const toDate = query.get('to');
+			if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+				return fail(400, 'Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).');
+			}
+			return ok(
+				buildExport({
+					guildId,
+					matchId: query.get('match') ?? undefined,
+					fromDate: fromDate ?? undefined,
+					toDate: toDate ?? undefined,
+				})
+			);
+		},
+	},
+];
+
+// Helper: whether the Authorization header carries the API token, compared in constant time
+function hasToken(authorization: string, token: string): boolean {
+	const given = Buffer.from(authorization.replace(/^Bearer\s+/i, ''));
+	const expected = Buffer.from(token);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Answer one request. Kept apart from the server so it can be exercised without a socket.
+export function handleApiRequest(
+	request: ApiRequest,
+	options: Pick<ApiOptions, 'token' | 'isReady'>
+): ApiResponse {
+	if (request.method !== 'GET') return fail(405, 'Only GET is supported.');
+	const url = new URL(request.url, 'http://localhost');
+	if (url.pathname === '/health') return ok({ status: 'ok' });
+	if (url.pathname === '/ready') {
+		const database = isDatabaseReady();
+		const discord = options.isReady();
+		const ready = database && discord;
+		return { status: ready ? 200 : 503, body: { ready, database, discord } };
+	}
+
+	// A token that doesn't match is an error even where none is needed, so clients notice
+	if (request.authorization && (!options.token || !hasToken(request.authorization, options.token))) {
+		return fail(401, 'Invalid API token.');
+	}
+	const admin = Boolean(request.authorization);
+
+	const guildPath = /^\/api\/guilds\/([^/]+)(\/.*)$/.exec(url.pathname);
+	if (!guildPath) return fail(404, 'Not found.');
+	for (const route of routes) {
+		const found = route.pattern.exec(guildPath[2]);
+		if (!found) continue;
+		if (route.adminOnly && !admin) {
+			return options.token
+				? fail(401, 'This endpoint needs the API token.')
+				: fail(403, 'Admin endpoints are disabled; set API_TOKEN to enable them.');
+		}
+		let guildId: string;
+		let params: string[];
+		try {
+			guildId = decodeURIComponent(guildPath[1]);
+			params = found.slice(1).map(decodeURIComponent);
+		} catch {
+			return fail(400, 'Malformed URL.');
+		}
+		return route.handle({ guildId, params, query: url.searchParams, admin });
+	}
+	return fail(404, 'Not found.');
+}
+
+// Start the API server. Failures are logged rather than thrown, so a busy port or a bad
+// request never takes the bot down.
+export function startApiServer(options: ApiOptions): Server {
+	const server = createServer((req, res) => {
+		let response: ApiResponse;
+		try {
+			response = handleApiRequest(
+				{ method: req.method ?? 'GET', url: req.url ?? '/', authorization: req.headers.authorization },
+				options
+			);
+		} catch (error) {
+			console.error('API request failed:', error);
+			response = fail(500, 'Internal error.');
+		}
+		res.writeHead(response.status, { 'Content-Type': 'application/json; charset=utf-8' });
+		res.end(JSON.stringify(response.body));
+	});
+	server.on('error', (error) => console.error('API server error:', error));
+	server.listen(options.port, () => console.log(`API listening on port ${options.port}.`));
+	return server;
+}
@@ -0,0 +1,28 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { matchOption } from './options';
+import { transitionMatch, resolveMatch } from './shared';
+import { Command } from './types';
+
+export const abandonCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('abandon')
+		.setDescription('Admin: Mark the current match as abandoned (no result)')
+		.addStringOption(matchOption),
+	permission: { capability: 'cancel', denied: 'Only admins can abandon a match.' },
+	help: [
+		'Mark the current match as abandoned. Use it in case of NR/Washed out matches etc.',
+		'This operation is irreversible!',
+	],
+	async execute(ctx) {
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open', 'locked'],
+			'No active match to abandon.'
+		);
+		if (!currentMatch) return;
+		if (!(await transitionMatch(ctx, currentMatch, 'abandoned'))) return;
+		await ctx.reply(
+			'The current match has been abandoned. Predictions are kept but not scored.'
+		);
+	},
+};
@@ -0,0 +1,86 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { addAdminGrant, removeAdminGrants, getAdminGrants } from '../db';
+import { buildPages } from '../pagination';
+import { ALL_CAPABILITIES, capabilityName } from '../permissions';
+import { adminTargetOptions, capabilityOption } from './options';
+import { Command } from './types';
+
+export const adminCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('admin')
+		.setDescription('Manage who can run admin commands (Manage Server permission required)')
+		.addSubcommand((sub) =>
+			adminTargetOptions(sub.setName('add').setDescription('Grant admin rights to a user or role'))
+				.addStringOption((option) => capabilityOption(option, 'What to allow (defaults to everything)'))
+		)
+		.addSubcommand((sub) =>
+			adminTargetOptions(sub.setName('remove').setDescription('Revoke admin rights from a user or role'))
+				.addStringOption((option) => capabilityOption(option, 'What to revoke (defaults to every grant)'))
+		)
+		.addSubcommand((sub) => sub.setName('list').setDescription('Show every admin grant')),
+	permission: {
+		capability: 'full',
+		denied: 'Only members with the Manage Server permission can manage admins.',
+	},
+	help: [
+		'add/remove: grant or revoke admin rights for a user or role, either everything or one capability: setup (set up, edit, close and reopen matches, questions, season scoring), settle (end matches, settle questions), cancel (cancel/abandon), export (export/import).',
+		'list: show every grant.',
+		'Admin only commands need the matching capability. Server admins, members with Manage Server and users in the ADMINS env var have every right.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const sub = ctx.options.getSubcommand();
+		if (sub === 'list') {
+			const grants = getAdminGrants(guildId);
+			await ctx.sendPages(
+				buildPages({
+					title: 'Admin grants',
+					header: 'Members with Administrator or Manage Server, and users in ADMINS, always have every right.',
+					lines: grants.map(
+						(g) =>
+							`${g.targetType === 'user' ? `<@${g.targetId}>` : `<@&${g.targetId}>`}: ${capabilityName(g.capability)}`
+					),
+					emptyText: 'No grants yet. Add one with /admin add.',
+				}),
+				{ ephemeral: true }
+			);
+			return;
+		}
+
+		const user = ctx.options.getUser('user');
+		const role = ctx.options.getRole('role');
+		if (!user === !role) {
+			await ctx.reply({
+				content: 'Pick either a user or a role.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const targetType = user ? 'user' : 'role';
+		const targetId = (user ?? role)!.id;
+		const mention = user ? `<@${targetId}>` : `<@&${targetId}>`;
+		const capability = ctx.options.getString('capability');
+		if (sub === 'add') {
+			const added = addAdminGrant({
+				guildId,
+				targetType,
+				targetId,
+				capability: capability ?? ALL_CAPABILITIES,
+			});
+			await ctx.reply({
+				content: added
+					? `Granted ${capabilityName(capability ?? ALL_CAPABILITIES)} rights to ${mention}.`
+					: `${mention} already has that grant.`,
+				ephemeral: true,
+			});
+			return;
+		}
+		const removed = removeAdminGrants(guildId, targetType, targetId, capability ?? undefined);
+		await ctx.reply({
+			content: removed
+				? `Removed ${removed} grant(s) from ${mention}.`
+				: `${mention} has no matching grant.`,
+			ephemeral: true,
+		});
+	},
+};
@@ -0,0 +1,26 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { matchOption } from './options';
+import { transitionMatch, resolveMatch } from './shared';
+import { Command } from './types';
+
+export const cancelmatchCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('cancelmatch')
+		.setDescription('Admin: Cancel the current match due to unforeseen events')
+		.addStringOption(matchOption),
+	permission: { capability: 'cancel', denied: 'Only admins can cancel a match.' },
+	help: [
+		'Cancel the current match. It is kept for the record but never scored.',
+		'This operation is irreversible!',
+	],
+	async execute(ctx) {
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open', 'locked'],
+			'No active match to cancel.'
+		);
+		if (!currentMatch) return;
+		if (!(await transitionMatch(ctx, currentMatch, 'cancelled'))) return;
+		await ctx.reply('The current match has been cancelled.');
+	},
+};
@@ -0,0 +1,31 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { matchOption } from './options';
+import { transitionMatch, resolveMatch, revealPages } from './shared';
+import { Command } from './types';
+
+export const closeCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('close')
+		.setDescription('Admin: Close the current poll')
+		.addStringOption(matchOption),
+	permission: { capability: 'setup', denied: 'Only admins can close the poll.' },
+	help: [
+		'Close the current poll (no further predictions).',
+	],
+	async execute(ctx) {
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open'],
+			'No active match to close.'
+		);
+		if (!currentMatch) return;
+		if (!(await transitionMatch(ctx, currentMatch, 'locked'))) return;
+		// Automated notification: announce in channel
+		await ctx.reply(
+			'Poll closed. No further predictions will be accepted.'
+		);
+		if (currentMatch.sealed) {
+			await ctx.sendPages(revealPages(currentMatch), { followUp: true });
+		}
+	},
+};
@@ -0,0 +1,89 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getMatchDetails, getPredictionHistory } from '../db';
+import {
+	PredictionSort,
+	formatMatchTitle,
+	formatMatchHeader,
+	formatPrediction,
+	formatHistoryEntry,
+	sortPredictions,
+} from '../format';
+import { isSealed } from '../lifecycle';
+import { buildPages } from '../pagination';
+import { getGuildTimeZone } from '../settings';
+import { sortOption } from './options';
+import { questionResults, combinedStandings } from './shared';
+import { Command } from './types';
+
+export const detailsCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('details')
+		.setDescription('Show details of a past match')
+		.addStringOption((option) =>
+			option.setName('matchid').setDescription('Match ID').setRequired(true)
+		)
+		.addStringOption(sortOption),
+	help: [
+		'Show details of a past match.',
+		'Option: matchid, optional sort',
+		'Admins also get the full audit trail of submissions and edits.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const timeZone = getGuildTimeZone(guildId);
+		const matchId = ctx.options.getString('matchid', true);
+		const details = getMatchDetails(matchId);
+		if (!details || details.match.guildId !== guildId) {
+			await ctx.reply({
+				content: 'Match ID not found.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const { match } = details;
+		const sort = (ctx.options.getString('sort') ?? 'score') as PredictionSort;
+		const predictions = sortPredictions(details.predictions, sort, match);
+		const sealed = isSealed(match);
+		await ctx.sendPages(
+			buildPages({
+				title: `Match details - ${formatMatchTitle(match)}`,
+				header: `${formatMatchHeader(match, timeZone)}\n\n**Predictions${sealed ? ' (sealed until the poll closes)' : ''}:**`,
+				lines: predictions.map((p) => (sealed ? p.username : formatPrediction(p))),
+				emptyText: 'No predictions.',
+			})
+		);
+		const combined = combinedStandings(match);
+		if (combined) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Combined standings - ${match.teamName} v ${match.opponent}`,
+					lines: combined,
+					emptyText: 'Nobody predicted both innings.',
+				}),
+				{ followUp: true }
+			);
+		}
+		const questions = questionResults(match.id);
+		if (questions.length) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Extra questions - ${formatMatchTitle(match)}`,
+					lines: questions,
+					emptyText: 'No questions.',
+				}),
+				{ followUp: true }
+			);
+		}
+		// Admins additionally get the full audit trail, privately
+		if (ctx.isAdmin) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Audit trail - match ${match.id}`,
+					lines: getPredictionHistory(match.id).map((entry) => formatHistoryEntry(entry, timeZone)),
+					emptyText: 'No recorded submissions.',
+				}),
+				{ ephemeral: true, followUp: true }
+			);
+		}
+	},
+};
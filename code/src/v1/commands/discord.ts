@@ -0,0 +1,51 @@
+import { AttachmentBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { sendPaginated } from '../pagination';
+import { hasCapability, hasFullRights, isAnyAdmin, permissionSubject } from '../permissions';
+import { CommandContext, ReplyMessage } from './types';
+
+// Helper: a reply in discord.js terms, with files turned into attachments
+function toPayload(message: string | ReplyMessage) {
+	if (typeof message === 'string') return { content: message };
+	const { files, ...rest } = message;
+	return {
+		...rest,
+		files: files?.map(
+			(file) => new AttachmentBuilder(Buffer.from(file.content, 'utf8'), { name: file.name })
+		),
+	};
+}
+
+// Adapt a guild slash command interaction to the context handlers work with
+export function fromInteraction(
+	interaction: ChatInputCommandInteraction<'cached' | 'raw'>
+): CommandContext {
+	const subject = permissionSubject(interaction);
+	return {
+		guildId: interaction.guildId,
+		channelId: interaction.channelId,
+		user: interaction.user,
+		options: interaction.options,
+		can: (capability) => hasCapability(subject, capability),
+		isAdmin: isAnyAdmin(subject),
+		hasFullRights: hasFullRights(subject),
+		reply: async (message) => {
+			await interaction.reply(toPayload(message));
+		},
+		deferReply: async (options) => {
+			await interaction.deferReply(options);
+		},
+		editReply: async (content) => {
+			await interaction.editReply(content);
+		},
+		followUp: async (message) => {
+			await interaction.followUp(toPayload(message));
+		},
+		get replied() {
+			return interaction.replied;
+		},
+		get deferred() {
+			return interaction.deferred;
+		},
+		sendPages: (pages, options) => sendPaginated(interaction, pages, options),
+	};
+}
@@ -0,0 +1,71 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { insertOrUpdatePrediction } from '../db';
+import { formatMatchTitle } from '../format';
+import { parseScore } from '../scoring';
+import { matchOption } from './options';
+import { describeParsedScore, resolveMatch, replyScoreTaken } from './shared';
+import { Command } from './types';
+
+export const editCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('edit')
+		.setDescription('Edit your prediction')
+		.addStringOption((option) =>
+			option
+				.setName('score')
+				.setDescription('Your new predicted score')
+				.setRequired(true)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('comment')
+				.setDescription('Optional updated comment')
+				.setRequired(false)
+		)
+		.addStringOption(matchOption),
+	help: [
+		'Edit/Update your prediction.',
+		'Options: score (same formats as /predict), optional comment.',
+	],
+	async execute(ctx) {
+		const userId = ctx.user.id;
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open'],
+			'No active match to edit prediction.'
+		);
+		if (!currentMatch) return;
+		if (currentMatch.status !== 'open') {
+			await ctx.reply({
+				content: 'Predictions are closed for this match, so they can no longer be edited.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const scoreStr = ctx.options.getString('score', true);
+		const comment = ctx.options.getString('comment') || '';
+		const parsed = parseScore(scoreStr, currentMatch.format);
+		if ('error' in parsed) {
+			await ctx.reply({ content: parsed.error, ephemeral: true });
+			return;
+		}
+		const { score } = parsed;
+		const saved = insertOrUpdatePrediction({
+			matchId: currentMatch.id,
+			userId,
+			username: ctx.user.username,
+			runs: score.runs,
+			wickets: score.wickets,
+			comment,
+		});
+		if (!saved) {
+			await replyScoreTaken(ctx, currentMatch, score);
+			return;
+		}
+		await ctx.reply({
+			content: `Prediction updated for ${formatMatchTitle(currentMatch)}: ${describeParsedScore(parsed)}${comment ? ` (Comment: ${comment})` : ''
+				}`,
+			ephemeral: true,
+		});
+	},
+};
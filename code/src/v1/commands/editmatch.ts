@@ -0,0 +1,108 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { updateMatch, getFixtureInnings } from '../db';
+import { parseStartTime, formatTimestamp, scheduleLock, cancelLock } from '../scheduler';
+import { getGuildTimeZone } from '../settings';
+import { matchOption, teamOption, tossOption } from './options';
+import { resolveMatch, swapSides } from './shared';
+import { Command } from './types';
+
+export const editmatchCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('editmatch')
+		.setDescription('Admin: Edit details of the active match')
+		.addStringOption((option) => teamOption(option, 'batting', 'New batting team'))
+		.addStringOption((option) => teamOption(option, 'bowling', 'New bowling team'))
+		.addStringOption((option) => tossOption(option, 'Toss outcome'))
+		.addStringOption((option) =>
+			option.setName('venue').setDescription('New venue').setAutocomplete(true).setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('start')
+				.setDescription('New start time, YYYY-MM-DD HH:mm or YYYY-MM-DD')
+				.setRequired(false)
+		)
+		.addStringOption(matchOption),
+	permission: { capability: 'setup', denied: 'Only admins can edit match details.' },
+	help: [
+		'Edit details of the active match.',
+		'Options: batting, bowling, toss, venue, start (reschedules the automatic lock). Fixture changes apply to both innings.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const timeZone = getGuildTimeZone(guildId);
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open', 'locked'],
+			'No active match to edit.'
+		);
+		if (!currentMatch) return;
+		const sides = {
+			teamName: ctx.options.getString('batting') ?? undefined,
+			opponent: ctx.options.getString('bowling') ?? undefined,
+			toss: ctx.options.getString('toss') ?? undefined,
+		};
+		const batting = sides.teamName ?? currentMatch.teamName;
+		const bowling = sides.opponent ?? currentMatch.opponent;
+		if (bowling && bowling.toLowerCase() === batting.toLowerCase()) {
+			await ctx.reply({
+				content: 'The batting and bowling teams must be different.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const venue = ctx.options.getString('venue');
+		const startStr = ctx.options.getString('start');
+		const start = startStr ? parseStartTime(startStr, timeZone) : null;
+		if (startStr && !start) {
+			await ctx.reply({
+				content: 'Invalid start time. Use YYYY-MM-DD HH:mm (e.g., 2025-03-22 19:30).',
+				ephemeral: true,
+			});
+			return;
+		}
+		if (start?.startsAt != null && start.startsAt <= Date.now()) {
+			await ctx.reply({
+				content: 'The start time is in the past.',
+				ephemeral: true,
+			});
+			return;
+		}
+		// A start time on an open match reschedules the automatic lock. A date alone, or any new
+		// start on a locked match, leaves nothing to lock, so the old schedule is dropped.
+		const reschedule = start?.startsAt != null && currentMatch.status === 'open';
+		const lockDropped = start !== null && !reschedule && currentMatch.autoLock === 1;
+		// Both innings of a fixture share the teams, toss, venue and date, with sides swapped
+		const innings = currentMatch.fixtureId
+			? getFixtureInnings(currentMatch.fixtureId)
+			: [currentMatch];
+		for (const match of innings) {
+			updateMatch({
+				id: match.id,
+				...(match.id === currentMatch.id ? sides : swapSides(sides)),
+				venue: venue || undefined,
+				matchDate: start?.matchDate,
+			});
+		}
+		if (start) {
+			updateMatch({
+				id: currentMatch.id,
+				startsAt: reschedule ? start.startsAt : null,
+				autoLock: reschedule,
+			});
+			if (reschedule) {
+				scheduleLock(currentMatch.id, start.startsAt!);
+			} else {
+				cancelLock(currentMatch.id);
+			}
+		}
+		await ctx.reply(
+			`Match details updated.${reschedule
+				? ` Predictions lock automatically at ${formatTimestamp(start!.startsAt!, timeZone)}.`
+				: lockDropped && currentMatch.status === 'open'
+					? ' Predictions no longer lock automatically; use /close when the match starts.'
+					: ''
+			}`
+		);
+	},
+};
@@ -0,0 +1,144 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { MIN_CROWD, crowdStats, crowdVerdict, formatCrowdStats, runsHistogram } from '../crowd';
+import { updateMatch, getPredictionsForMatch, getSetting, getFixtureInnings } from '../db';
+import { formatInnings, formatMatchTitle } from '../format';
+import { canTransition, transitionError } from '../lifecycle';
+import { buildPages } from '../pagination';
+import { cancelLock } from '../scheduler';
+import {
+	parseScore,
+	getScoringRule,
+	formatResult,
+	getTiebreaker,
+	rankPredictions,
+} from '../scoring';
+import { matchOption, tiebreakerOption } from './options';
+import {
+	describeWinners,
+	resolveMatch,
+	questionResults,
+	combinedStandings,
+	revealPages,
+} from './shared';
+import { Command } from './types';
+
+// Podium lines shown; a big tie for a place is counted rather than listed
+const MAX_PODIUM_SHOWN = 10;
+
+export const endCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('end')
+		.setDescription('Admin: End match with actual score and determine winner')
+		.addStringOption((option) =>
+			option
+				.setName('score')
+				.setDescription('Actual score (e.g., 240/5)')
+				.setRequired(true)
+		)
+		.addStringOption((option) =>
+			tiebreakerOption(option, "How to split equal predictions (defaults to the season's tiebreaker)")
+		)
+		.addStringOption(matchOption),
+	permission: { capability: 'settle', denied: 'Only admins can end the match.' },
+	help: [
+		'End the match with the actual score and announce the winner(s), podium and crowd statistics (open or closed matches).',
+		'Option: score (same formats as /predict), optional tiebreaker (shared win, earliest submission, fewest edits)',
+		'For fixtures, end each innings on its own. Ending the 1st innings at the innings break locks the 2nd; once both are settled the combined standings are shown.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const currentMatch = await resolveMatch(
+			ctx,
+			['locked'],
+			'No active match to end.'
+		);
+		if (!currentMatch) return;
+		if (!canTransition(currentMatch.status, 'settled')) {
+			await ctx.reply({
+				content: transitionError(currentMatch.status, 'settled'),
+				ephemeral: true,
+			});
+			return;
+		}
+		const scoreStr = ctx.options.getString('score', true);
+		const parsed = parseScore(scoreStr, currentMatch.format);
+		if ('error' in parsed) {
+			await ctx.reply({ content: parsed.error, ephemeral: true });
+			return;
+		}
+		const actualScore = parsed.score;
+		const tiebreaker = getTiebreaker(
+			ctx.options.getString('tiebreaker') ?? getSetting(guildId, 'tiebreaker')
+		);
+		updateMatch({
+			id: currentMatch.id,
+			status: 'settled',
+			actualRuns: actualScore.runs,
+			actualWickets: actualScore.wickets,
+			tiebreaker,
+		});
+		cancelLock(currentMatch.id);
+		const predictions = getPredictionsForMatch(currentMatch.id);
+		// Score with the rule fixed at setup
+		const rule = getScoringRule(currentMatch.scoringRule);
+		const ranked = rankPredictions(predictions, actualScore, rule, tiebreaker);
+		const podium = ranked.filter((entry) => entry.rank <= 3);
+		const podiumMore = podium.length - MAX_PODIUM_SHOWN;
+		let resultMsg = `Actual score${currentMatch.innings ? ` (${formatInnings(currentMatch.innings)})` : ''}: ${actualScore.runs}/${actualScore.wickets}\n`;
+		resultMsg += ranked.length
+			? `${describeWinners(ranked, tiebreaker)}\n\nPodium (${rule.name}):\n${podium
+				.slice(0, MAX_PODIUM_SHOWN)
+				.map(
+					(entry) =>
+						`${entry.rank}. ${entry.prediction.username}: ${entry.prediction.runs}/${entry.prediction.wickets} (${formatResult(rule, entry.result)})`
+				)
+				.join('\n')}${podiumMore > 0 ? `\n...and ${podiumMore} more` : ''}`
+			: 'No predictions were made.';
+		// The first innings is settled at the innings break, which closes the second
+		const second = currentMatch.fixtureId && currentMatch.innings === 1
+			? getFixtureInnings(currentMatch.fixtureId).find((m) => m.innings === 2)
+			: undefined;
+		const lockSecond = second?.status === 'open';
+		if (lockSecond) {
+			updateMatch({ id: second!.id, status: 'locked' });
+			cancelLock(second!.id);
+			resultMsg += `\n\nPredictions for the ${formatInnings(2)} are now locked.`;
+		}
+		const combined = combinedStandings(currentMatch);
+		if (combined?.length) {
+			resultMsg += `\n\nCombined standings (${rule.name}):\n${combined.slice(0, 10).join('\n')}`;
+		}
+		await ctx.reply(resultMsg);
+		// The crowd view follows as its own pages, like in /list, so the histogram never pushes
+		// the result past Discord's message limit
+		const crowd = predictions.length >= MIN_CROWD ? crowdStats(predictions) : null;
+		if (crowd) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Wisdom of the crowd - ${formatMatchTitle(currentMatch)} (${crowd.count} predictions)`,
+					lines: [
+						...formatCrowdStats(crowd),
+						runsHistogram(predictions.map((p) => p.runs)),
+						crowdVerdict(crowd.consensus, actualScore, rule, ranked),
+					],
+					emptyText: 'No predictions.',
+				}),
+				{ followUp: true }
+			);
+		}
+		const questions = questionResults(currentMatch.id);
+		if (questions.length) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Extra questions - ${formatMatchTitle(currentMatch)}`,
+					lines: questions,
+					emptyText: 'No questions.',
+				}),
+				{ followUp: true }
+			);
+		}
+		if (lockSecond && second!.sealed) {
+			await ctx.sendPages(revealPages(second!), { followUp: true });
+		}
+	},
+};
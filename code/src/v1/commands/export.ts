@@ -0,0 +1,91 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { buildExport, exportToJson, exportToCsv } from '../export';
+import { isSealed } from '../lifecycle';
+import { isIsoDate } from '../scheduler';
+import { Command } from './types';
+
+export const exportCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('export')
+		.setDescription('Admin: Export match, prediction and stats data as JSON/CSV files')
+		.addStringOption((option) =>
+			option
+				.setName('format')
+				.setDescription('File format (defaults to both)')
+				.addChoices(
+					{ name: 'JSON', value: 'json' },
+					{ name: 'CSV', value: 'csv' },
+					{ name: 'JSON and CSV', value: 'both' }
+				)
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option.setName('matchid').setDescription('Only export this match').setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('from')
+				.setDescription('Only matches on or after this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('to')
+				.setDescription('Only matches on or before this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addIntegerOption((option) =>
+			option
+				.setName('season')
+				.setDescription('Only matches in this season year (e.g., 2025)')
+				.setMinValue(2000)
+				.setMaxValue(2100)
+				.setRequired(false)
+		),
+	permission: { capability: 'export', denied: 'Only admins can export data.' },
+	help: [
+		'Export matches, predictions and per-user stats as JSON and/or CSV files.',
+		'Optional: format, matchid, from/to (YYYY-MM-DD), season (year)',
+		'While a sealed match is open the files are sent only to you, as they contain its hidden picks.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const format = ctx.options.getString('format') ?? 'both';
+		const matchId = ctx.options.getString('matchid');
+		const season = ctx.options.getInteger('season');
+		const fromDate = ctx.options.getString('from') ?? (season ? `${season}-01-01` : null);
+		const toDate = ctx.options.getString('to') ?? (season ? `${season}-12-31` : null);
+		if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+			await ctx.reply({
+				content: 'Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).',
+				ephemeral: true,
+			});
+			return;
+		}
+		const exportData = buildExport({
+			guildId,
+			matchId: matchId ?? undefined,
+			fromDate: fromDate ?? undefined,
+			toDate: toDate ?? undefined,
+		});
+		if (!exportData.matches.length) {
+			await ctx.reply({
+				content: 'No matches found for those filters.',
+				ephemeral: true,
+			});
+			return;
+		}
+		// Send as file attachments: message content is capped at 2000 characters
+		const files = [
+			...(format !== 'csv' ? [exportToJson(exportData)] : []),
+			...(format !== 'json' ? exportToCsv(exportData) : []),
+		];
+		// Sealed picks stay hidden from the channel until the poll closes, as in /list
+		const sealed = exportData.matches.some(isSealed);
+		await ctx.reply({
+			content: `Exported ${exportData.matches.length} matches and ${exportData.predictions.length} predictions.${sealed ? ' Sent only to you: it includes sealed predictions of a match that is still open.' : ''}`,
+			files,
+			ephemeral: sealed,
+		});
+	},
+};
@@ -0,0 +1,34 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { buildPages } from '../pagination';
+import { getCommands, permissionLabel } from './registry';
+import { Command } from './types';
+
+// Notes that apply to every command, shown after them
+const NOTES = [
+	'Several matches can run at once. /predict, /edit, /list, /close, /reopen, /end, /editmatch, /cancelmatch and /abandon take an optional match option (autocompleted) that can be left out when only one match applies.',
+	'Each server has its own matches, predictions, leaderboard, admins and settings.',
+	"Note: Predictions along with user IDs are stored in database. I don't collect any other info.",
+];
+
+// /help is generated from the registered commands, so it lists exactly what the bot offers
+export const helpCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('help')
+		.setDescription('Show help for all commands'),
+	help: [
+		'Show this help.',
+	],
+	async execute(ctx) {
+		// A trailing newline leaves a blank line between commands
+		const lines = getCommands().map(
+			(command) =>
+				`**/${command.definition.name}**${permissionLabel(command)}:\n${command.help
+					.map((line) => `• ${line}`)
+					.join('\n')}\n`
+		);
+		await ctx.sendPages(
+			buildPages({ title: 'Available Commands', lines: [...lines, ...NOTES], emptyText: 'No commands.' }),
+			{ ephemeral: true }
+		);
+	},
+};
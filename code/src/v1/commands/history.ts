@@ -0,0 +1,62 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getPredictionHistory } from '../db';
+import { formatMatchTitle } from '../format';
+import { formatTimestamp } from '../scheduler';
+import { getGuildTimeZone } from '../settings';
+import { matchOption } from './options';
+import { getGuildMatch, resolveMatch } from './shared';
+import { Command } from './types';
+
+export const historyCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('history')
+		.setDescription('Show every submission and edit of a prediction')
+		.addUserOption((option) =>
+			option
+				.setName('user')
+				.setDescription('Whose history to show (admins only; defaults to you)')
+				.setRequired(false)
+		)
+		.addStringOption(matchOption),
+	help: [
+		'Show when you predicted and every change you made for a match.',
+		"Options: optional match; admins can pass user to view someone else's history.",
+	],
+	async execute(ctx) {
+		const userId = ctx.user.id;
+		const { guildId } = ctx;
+		const timeZone = getGuildTimeZone(guildId);
+		const targetUser = ctx.options.getUser('user') ?? ctx.user;
+		if (targetUser.id !== userId && !ctx.isAdmin) {
+			await ctx.reply({
+				content: "Only admins can view other members' history.",
+				ephemeral: true,
+			});
+			return;
+		}
+		// Any match can be looked up by ID; without one, fall back to the active match
+		const matchId = ctx.options.getString('match');
+		const match = matchId
+			? getGuildMatch(guildId, matchId)
+			: await resolveMatch(ctx, ['open', 'locked'], 'No active match. Pass a match ID.');
+		if (!match) {
+			if (matchId) {
+				await ctx.reply({ content: 'Match ID not found.', ephemeral: true });
+			}
+			return;
+		}
+		const history = getPredictionHistory(match.id, targetUser.id);
+		const historyMsg = history.length
+			? history
+				.map(
+					(h, idx) =>
+						`${formatTimestamp(h.createdAt, timeZone)} ${idx === 0 ? 'Predicted' : 'Changed to'} ${h.runs}/${h.wickets}${h.comment ? ` (Comment: ${h.comment})` : ''}`
+				)
+				.join('\n')
+			: 'No recorded submissions.';
+		await ctx.reply({
+			content: `History for ${targetUser.username} on ${formatMatchTitle(match)} (${match.id}):\n${historyMsg}`,
+			ephemeral: true,
+		});
+	},
+};
@@ -0,0 +1,69 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getActiveMatches } from '../db';
+import { parseImport, applyImport, describeImport } from '../import';
+import { scheduleLock } from '../scheduler';
+import { Command } from './types';
+
+export const importCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('import')
+		.setDescription('Admin: Import a JSON file produced by /export')
+		.addAttachmentOption((option) =>
+			option.setName('file').setDescription('export.json file').setRequired(true)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('mode')
+				.setDescription('Merge into existing data (default) or replace all matches')
+				.addChoices(
+					{ name: 'Merge', value: 'merge' },
+					{ name: 'Replace', value: 'replace' }
+				)
+				.setRequired(false)
+		)
+		.addBooleanOption((option) =>
+			option
+				.setName('dryrun')
+				.setDescription('Only report what would change')
+				.setRequired(false)
+		),
+	permission: { capability: 'export', denied: 'Only admins can import data.' },
+	help: [
+		'Import a JSON file produced by /export.',
+		'Options: file, mode (merge keeps existing rows on conflict, replace wipes all matches first), dryrun',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const file = ctx.options.getAttachment('file', true);
+		const mode = ctx.options.getString('mode') === 'replace' ? 'replace' : 'merge';
+		const dryRun = ctx.options.getBoolean('dryrun') ?? false;
+		// Downloading the attachment can exceed Discord's 3 second reply window
+		await ctx.deferReply({ ephemeral: true });
+		let json: unknown;
+		try {
+			const response = await fetch(file.url);
+			json = await response.json();
+		} catch (error) {
+			console.error(error);
+			await ctx.editReply('Could not read the file. Is it the JSON produced by /export?');
+			return;
+		}
+		const parsed = parseImport(json);
+		if ('errors' in parsed) {
+			const shown = parsed.errors.slice(0, 15).join('\n');
+			const more = parsed.errors.length > 15 ? `\n...and ${parsed.errors.length - 15} more` : '';
+			await ctx.editReply(`Import rejected, nothing was written:\n${shown}${more}`);
+			return;
+		}
+		const report = applyImport(parsed, mode, guildId, dryRun);
+		// Imported matches still taking predictions lock at their start time, as after a restart
+		if (!dryRun) {
+			for (const match of getActiveMatches(guildId)) {
+				if (match.status === 'open' && match.autoLock && match.startsAt !== null) {
+					scheduleLock(match.id, match.startsAt);
+				}
+			}
+		}
+		await ctx.editReply(describeImport(report, dryRun));
+	},
+};
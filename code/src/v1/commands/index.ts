@@ -0,0 +1,55 @@
+import { setupCommand } from './setup';
+import { predictCommand } from './predict';
+import { editCommand } from './edit';
+import { closeCommand } from './close';
+import { reopenCommand } from './reopen';
+import { listCommand } from './list';
+import { endCommand } from './end';
+import { pastCommand } from './past';
+import { detailsCommand } from './details';
+import { historyCommand } from './history';
+import { mystatsCommand } from './mystats';
+import { leaderboardCommand } from './leaderboard';
+import { scoringCommand } from './scoring';
+import { editmatchCommand } from './editmatch';
+import { exportCommand } from './export';
+import { reportCommand } from './report';
+import { importCommand } from './import';
+import { cancelmatchCommand } from './cancelmatch';
+import { abandonCommand } from './abandon';
+import { questionCommand } from './question';
+import { adminCommand } from './admin';
+import { settingsCommand } from './settings';
+import { helpCommand } from './help';
+import { registerCommand } from './registry';
+
+// Every command, in /help order. A new command is a module exporting a Command, listed here.
+[
+	setupCommand,
+	predictCommand,
+	editCommand,
+	closeCommand,
+	reopenCommand,
+	listCommand,
+	endCommand,
+	historyCommand,
+	pastCommand,
+	detailsCommand,
+	mystatsCommand,
+	leaderboardCommand,
+	scoringCommand,
+	editmatchCommand,
+	exportCommand,
+	reportCommand,
+	importCommand,
+	cancelmatchCommand,
+	abandonCommand,
+	questionCommand,
+	adminCommand,
+	settingsCommand,
+	helpCommand,
+].forEach(registerCommand);
+
+export { getCommand, getCommands, runCommand } from './registry';
+export { fromInteraction } from './discord';
+export { revealPages } from './shared';
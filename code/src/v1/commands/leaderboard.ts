@@ -0,0 +1,87 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getAllUserStats } from '../db';
+import { formatLeaderboardEntry } from '../format';
+import { buildLeaderboard } from '../leaderboard';
+import { buildPages } from '../pagination';
+import { isIsoDate } from '../scheduler';
+import { getScoringRule } from '../scoring';
+import { getSeasonScoringRule } from '../settings';
+import { scoringOption } from './options';
+import { Command } from './types';
+
+export const leaderboardCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('leaderboard')
+		.setDescription('Show leaderboard for past predictions')
+		.addIntegerOption((option) =>
+			option
+				.setName('last')
+				.setDescription('Only count the last N settled matches')
+				.setMinValue(1)
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('from')
+				.setDescription('Only count matches on or after this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('to')
+				.setDescription('Only count matches on or before this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			scoringOption(option, "Rank matches scored with this rule (defaults to the season's rule)")
+		),
+	help: [
+		'Display a leaderboard ranking users by prediction accuracy.',
+		'Optional: last (number of matches), from/to (YYYY-MM-DD), scoring (rule to rank by)',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const last = ctx.options.getInteger('last');
+		const fromDate = ctx.options.getString('from');
+		const toDate = ctx.options.getString('to');
+		if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+			await ctx.reply({
+				content: 'Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).',
+				ephemeral: true,
+			});
+			return;
+		}
+		const scoringId = ctx.options.getString('scoring');
+		const rule = scoringId ? getScoringRule(scoringId) : getSeasonScoringRule(guildId);
+		// Aggregate stats for all users
+		const userStats = getAllUserStats({
+			guildId,
+			lastMatches: last ?? undefined,
+			fromDate: fromDate ?? undefined,
+			toDate: toDate ?? undefined,
+			scoringRule: rule.id,
+		});
+		if (!userStats.length) {
+			await ctx.reply({
+				content: `No prediction data available for leaderboard (${rule.name}).`,
+				ephemeral: true,
+			});
+			return;
+		}
+		const leaderboard = buildLeaderboard(userStats, rule);
+		const windowDesc = [
+			last ? `last ${last} matches` : '',
+			fromDate ? `from ${fromDate}` : '',
+			toDate ? `to ${toDate}` : '',
+		]
+			.filter(Boolean)
+			.join(', ');
+		const pages = buildPages({
+			title: `Leaderboard - ${rule.name}${windowDesc ? ` (${windowDesc})` : ''}`,
+			header: `${rule.lowerIsBetter ? 'Lower' : 'Higher'} is better.`,
+			lines: leaderboard.map((entry, idx) => formatLeaderboardEntry(entry, idx + 1, rule)),
+			emptyText: 'No prediction data available for leaderboard.',
+		});
+		await ctx.sendPages(pages);
+	},
+};
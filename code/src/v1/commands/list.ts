@@ -0,0 +1,76 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { MIN_CROWD, crowdStats, formatCrowdStats, runsHistogram } from '../crowd';
+import { getPredictionsForMatch } from '../db';
+import { PredictionSort, formatMatchTitle, formatPrediction, sortPredictions } from '../format';
+import { isSealed } from '../lifecycle';
+import { buildPages } from '../pagination';
+import { matchOption, sortOption } from './options';
+import { resolveMatch, sealedPages } from './shared';
+import { Command } from './types';
+
+export const listCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('list')
+		.setDescription('List predictions for the current match')
+		.addStringOption(matchOption)
+		.addStringOption(sortOption)
+		.addBooleanOption((option) =>
+			option
+				.setName('peek')
+				.setDescription('Admin: privately see the picks of a sealed match')
+				.setRequired(false)
+		),
+	help: [
+		'List all predictions for the active match.',
+		'Optional: sort (by score, name or submission time)',
+		'Sealed matches only show who has predicted until the poll closes; admins can pass peek to see the picks privately.',
+		'Once the poll is locked, crowd statistics (mean, median, range, spread and a histogram of predicted runs) follow the list.',
+	],
+	async execute(ctx) {
+		const currentMatch = await resolveMatch(
+			ctx,
+			['open', 'locked'],
+			'No active match.'
+		);
+		if (!currentMatch) return;
+		const peek = ctx.options.getBoolean('peek') ?? false;
+		if (peek && !ctx.isAdmin) {
+			await ctx.reply({
+				content: 'Only admins can peek at sealed predictions.',
+				ephemeral: true,
+			});
+			return;
+		}
+		if (isSealed(currentMatch) && !peek) {
+			await ctx.sendPages(
+				sealedPages(currentMatch, `Current predictions - ${formatMatchTitle(currentMatch)} (sealed)`)
+			);
+			return;
+		}
+		const sort = (ctx.options.getString('sort') ?? 'score') as PredictionSort;
+		const predictions = sortPredictions(
+			getPredictionsForMatch(currentMatch.id),
+			sort,
+			currentMatch
+		);
+		const pages = buildPages({
+			title: `Current predictions - ${formatMatchTitle(currentMatch)} (${currentMatch.status})`,
+			lines: predictions.map((p) => formatPrediction(p)),
+			emptyText: 'No predictions yet.',
+		});
+		// A peek at a sealed match stays private to the admin
+		await ctx.sendPages(pages, { ephemeral: peek });
+		// Crowd statistics wait for the lock, so they can't sway predictions still coming in
+		const crowd = predictions.length >= MIN_CROWD ? crowdStats(predictions) : null;
+		if (currentMatch.status === 'locked' && crowd) {
+			await ctx.sendPages(
+				buildPages({
+					title: `Crowd view - ${formatMatchTitle(currentMatch)} (${crowd.count} predictions)`,
+					lines: [...formatCrowdStats(crowd), runsHistogram(predictions.map((p) => p.runs))],
+					emptyText: 'No predictions yet.',
+				}),
+				{ followUp: true }
+			);
+		}
+	},
+};
@@ -0,0 +1,36 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getUserStats } from '../db';
+import { averagesByRule } from '../leaderboard';
+import { formatResult } from '../scoring';
+import { Command } from './types';
+
+export const mystatsCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('mystats')
+		.setDescription('Show your past prediction performance'),
+	help: [
+		'Show your past prediction performance.',
+	],
+	async execute(ctx) {
+		const userId = ctx.user.id;
+		const { guildId } = ctx;
+		// Get all past predictions for this user and calculate average error.
+		const stats = getUserStats(userId, guildId);
+		if (!stats.length) {
+			await ctx.reply({
+				content: 'You have no past predictions.',
+				ephemeral: true,
+			});
+			return;
+		}
+		// Each match is scored with its own rule, so results are reported per rule
+		const ruleLines = averagesByRule(stats).map(
+			({ rule, predictions, average }) =>
+				`${rule.name}: ${predictions} predictions, average ${formatResult(rule, average)}`
+		);
+		await ctx.reply({
+			content: `You made ${stats.length} predictions.\n${ruleLines.join('\n')}`,
+			ephemeral: true,
+		});
+	},
+};
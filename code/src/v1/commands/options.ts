@@ -0,0 +1,66 @@
+import { SlashCommandStringOption, SlashCommandSubcommandBuilder } from 'discord.js';
+import { PREDICTION_SORTS, TOSS_OUTCOMES } from '../format';
+import { ALL_CAPABILITIES, CAPABILITIES } from '../permissions';
+import { SCORING_RULES, TIEBREAKERS } from '../scoring';
+
+// Slash command options shared by several commands
+
+// Optional match selector shared by every command that acts on an active match
+export const matchOption = (option: SlashCommandStringOption) =>
+	option
+		.setName('match')
+		.setDescription('Match to use (defaults to the only active match)')
+		.setAutocomplete(true)
+		.setRequired(false);
+
+// Display order for prediction lists shared by /list and /details
+export const sortOption = (option: SlashCommandStringOption) =>
+	option
+		.setName('sort')
+		.setDescription('Order predictions (defaults to by score)')
+		.addChoices(...PREDICTION_SORTS.map((sort) => ({ name: sort.name, value: sort.id })))
+		.setRequired(false);
+
+// Tiebreaker picker shared by /end and /scoring
+export const tiebreakerOption = (option: SlashCommandStringOption, description: string) =>
+	option
+		.setName('tiebreaker')
+		.setDescription(description)
+		.addChoices(...TIEBREAKERS.map((t) => ({ name: t.name, value: t.id })))
+		.setRequired(false);
+
+// Scoring rule picker shared by /setup, /scoring and /leaderboard
+export const scoringOption = (option: SlashCommandStringOption, description: string) =>
+	option
+		.setName('scoring')
+		.setDescription(description)
+		.addChoices(...SCORING_RULES.map((rule) => ({ name: rule.name, value: rule.id })))
+		.setRequired(false);
+
+// Team picker, autocompleted from teams used before (new names can still be typed)
+export const teamOption = (option: SlashCommandStringOption, name: string, description: string) =>
+	option.setName(name).setDescription(description).setAutocomplete(true).setRequired(false);
+
+// Toss outcome picker shared by /setup and /editmatch
+export const tossOption = (option: SlashCommandStringOption, description: string) =>
+	option
+		.setName('toss')
+		.setDescription(description)
+		.addChoices(...TOSS_OUTCOMES.map((t) => ({ name: t.name, value: t.id })))
+		.setRequired(false);
+
+// User or role targeted by /admin add and /admin remove; exactly one must be given
+export const adminTargetOptions = (sub: SlashCommandSubcommandBuilder) =>
+	sub
+		.addUserOption((option) => option.setName('user').setDescription('User').setRequired(false))
+		.addRoleOption((option) => option.setName('role').setDescription('Role').setRequired(false));
+
+export const capabilityOption = (option: SlashCommandStringOption, description: string) =>
+	option
+		.setName('capability')
+		.setDescription(description)
+		.addChoices(
+			{ name: 'Everything', value: ALL_CAPABILITIES },
+			...CAPABILITIES.map((c) => ({ name: `${c.name} - ${c.description}`.slice(0, 100), value: c.id }))
+		)
+		.setRequired(false);
@@ -0,0 +1,33 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getPastMatches } from '../db';
+import { formatMatchLine } from '../format';
+import { buildPages } from '../pagination';
+import { getGuildTimeZone } from '../settings';
+import { Command } from './types';
+
+export const pastCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('past')
+		.setDescription('List past matches'),
+	help: [
+		'List past matches.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const timeZone = getGuildTimeZone(guildId);
+		const past = getPastMatches(guildId);
+		if (!past.length) {
+			await ctx.reply({
+				content: 'No past matches recorded.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const pages = buildPages({
+			title: 'Past Matches',
+			lines: past.map((match) => formatMatchLine(match, timeZone)),
+			emptyText: 'No past matches recorded.',
+		});
+		await ctx.sendPages(pages);
+	},
+};
@@ -0,0 +1,233 @@
+import { SlashCommandBuilder } from 'discord.js';
+import {
+	insertQuestion,
+	getQuestionsForMatch,
+	getQuestion,
+	setQuestionAnswer,
+	insertOrUpdateAnswer,
+	getAnswersForQuestion,
+} from '../db';
+import { formatMatchTitle } from '../format';
+import { buildPages } from '../pagination';
+import {
+	QUESTION_KINDS,
+	DEFAULT_QUESTION_POINTS,
+	QuestionKind,
+	getChoices,
+	normaliseAnswer,
+	formatQuestionResult,
+} from '../questions';
+import { matchOption } from './options';
+import { getGuildMatch, resolveMatch } from './shared';
+import { Command } from './types';
+
+export const questionCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('question')
+		.setDescription('Extra questions on a match (winner, powerplay score, ...)')
+		.addSubcommand((sub) =>
+			sub
+				.setName('add')
+				.setDescription('Admin: Add a question to a match')
+				.addStringOption((option) =>
+					option.setName('prompt').setDescription('Question text').setRequired(true)
+				)
+				.addStringOption((option) =>
+					option
+						.setName('type')
+						.setDescription('Answer type')
+						.addChoices(...QUESTION_KINDS.map((k) => ({ name: k.name, value: k.id })))
+						.setRequired(true)
+				)
+				.addStringOption((option) =>
+					option
+						.setName('choices')
+						.setDescription('Allowed answers for a choice question, comma-separated (free text if left out)')
+						.setRequired(false)
+				)
+				.addIntegerOption((option) =>
+					option
+						.setName('points')
+						.setDescription(`Points for a correct answer (default ${DEFAULT_QUESTION_POINTS})`)
+						.setMinValue(1)
+						.setRequired(false)
+				)
+				.addStringOption(matchOption)
+		)
+		.addSubcommand((sub) =>
+			sub
+				.setName('answer')
+				.setDescription('Answer a question while predictions are open')
+				.addIntegerOption((option) =>
+					option
+						.setName('question')
+						.setDescription('Question to answer')
+						.setAutocomplete(true)
+						.setRequired(true)
+				)
+				.addStringOption((option) =>
+					option.setName('answer').setDescription('Your answer').setRequired(true)
+				)
+		)
+		.addSubcommand((sub) =>
+			sub
+				.setName('settle')
+				.setDescription('Admin: Record the correct answer to a question')
+				.addIntegerOption((option) =>
+					option
+						.setName('question')
+						.setDescription('Question to settle')
+						.setAutocomplete(true)
+						.setRequired(true)
+				)
+				.addStringOption((option) =>
+					option.setName('answer').setDescription('Correct answer').setRequired(true)
+				)
+		)
+		.addSubcommand((sub) =>
+			sub
+				.setName('list')
+				.setDescription('Show the questions of a match and your answers')
+				.addStringOption(matchOption)
+		),
+	help: [
+		'add (Admin only): add a question to a match. Options: prompt, type (choice, number, score), optional choices, points',
+		'answer: answer a question while predictions are open.',
+		'settle (Admin only): record the correct answer once the match has started. Choices score all or nothing, numbers get half points within 10%, scores lose points the further off they are.',
+		"list: show a match's questions and your answers.",
+		'Results are shown in /end and /details.',
+	],
+	async execute(ctx) {
+		const userId = ctx.user.id;
+		const { guildId } = ctx;
+		const sub = ctx.options.getSubcommand();
+		if (sub === 'add') {
+			if (!ctx.can('setup')) {
+				await ctx.reply({
+					content: 'Only admins can add questions.',
+					ephemeral: true,
+				});
+				return;
+			}
+			const currentMatch = await resolveMatch(
+				ctx,
+				['open'],
+				'No active match to add a question to.'
+			);
+			if (!currentMatch) return;
+			const kind = ctx.options.getString('type', true) as QuestionKind;
+			const choicesStr = ctx.options.getString('choices');
+			const choices = choicesStr
+				? choicesStr
+					.split(',')
+					.map((c) => c.trim())
+					.filter(Boolean)
+				: null;
+			if (choices && kind !== 'choice') {
+				await ctx.reply({
+					content: 'Choices only apply to choice questions.',
+					ephemeral: true,
+				});
+				return;
+			}
+			if (choices && choices.length < 2) {
+				await ctx.reply({
+					content: 'A choice question needs at least two choices.',
+					ephemeral: true,
+				});
+				return;
+			}
+			const prompt = ctx.options.getString('prompt', true);
+			const questionId = insertQuestion({
+				matchId: currentMatch.id,
+				prompt,
+				kind,
+				choices,
+				points: ctx.options.getInteger('points') ?? DEFAULT_QUESTION_POINTS,
+			});
+			await ctx.reply(
+				`Question ${questionId} added to ${formatMatchTitle(currentMatch)}: ${prompt}${choices ? ` (${choices.join(' / ')})` : ''}`
+			);
+			return;
+		}
+
+		if (sub === 'list') {
+			const currentMatch = await resolveMatch(
+				ctx,
+				['open', 'locked'],
+				'No active match.'
+			);
+			if (!currentMatch) return;
+			const lines = getQuestionsForMatch(currentMatch.id).map((q) => {
+				const choices = getChoices(q);
+				const mine = getAnswersForQuestion(q.id).find((a) => a.userId === userId);
+				return `**${q.prompt}** (${q.points} pts${choices ? `; ${choices.join(' / ')}` : ''})\nYour answer: ${mine ? mine.value : '-'}${q.answer !== null ? ` | Correct answer: ${q.answer}` : ''}`;
+			});
+			await ctx.sendPages(
+				buildPages({
+					title: `Extra questions - ${formatMatchTitle(currentMatch)}`,
+					lines,
+					emptyText: 'This match has no extra questions.',
+				}),
+				{ ephemeral: true }
+			);
+			return;
+		}
+
+		// Members are turned away before their answer is checked
+		if (sub === 'settle' && !ctx.can('settle')) {
+			await ctx.reply({
+				content: 'Only admins can settle questions.',
+				ephemeral: true,
+			});
+			return;
+		}
+
+		// answer and settle both refer to a question by ID
+		const question = getQuestion(ctx.options.getInteger('question', true));
+		const questionMatch = question ? getGuildMatch(guildId, question.matchId) : null;
+		if (!question || !questionMatch) {
+			await ctx.reply({ content: 'Question not found.', ephemeral: true });
+			return;
+		}
+		const normalised = normaliseAnswer(question, ctx.options.getString('answer', true));
+		if ('error' in normalised) {
+			await ctx.reply({ content: normalised.error, ephemeral: true });
+			return;
+		}
+
+		if (sub === 'answer') {
+			if (questionMatch.status !== 'open') {
+				await ctx.reply({
+					content: 'Answers are closed for this match.',
+					ephemeral: true,
+				});
+				return;
+			}
+			insertOrUpdateAnswer({
+				questionId: question.id,
+				userId,
+				username: ctx.user.username,
+				value: normalised.value,
+			});
+			await ctx.reply({
+				content: `Answer recorded for "${question.prompt}": ${normalised.value}`,
+				ephemeral: true,
+			});
+			return;
+		}
+
+		// settle
+		if (questionMatch.status !== 'locked' && questionMatch.status !== 'settled') {
+			await ctx.reply({
+				content: `Cannot settle a question on a match that is ${questionMatch.status}.`,
+				ephemeral: true,
+			});
+			return;
+		}
+		setQuestionAnswer(question.id, normalised.value);
+		await ctx.reply(
+			formatQuestionResult(getQuestion(question.id)!, getAnswersForQuestion(question.id))
+		);
+	},
+};
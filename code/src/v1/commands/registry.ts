@@ -0,0 +1,61 @@
+import { Command, CommandContext } from './types';
+
+// Commands by name, in the order they were registered (which is also the /help order)
+const commands = new Map<string, Command>();
+
+export function registerCommand(command: Command): void {
+	if (commands.has(command.definition.name)) {
+		throw new Error(`Command /${command.definition.name} is registered twice`);
+	}
+	commands.set(command.definition.name, command);
+}
+
+export function getCommand(name: string): Command | undefined {
+	return commands.get(name);
+}
+
+export function getCommands(): Command[] {
+	return [...commands.values()];
+}
+
+// Helper: how /help labels who may run a command
+export function permissionLabel(command: Command): string {
+	if (!command.permission) return '';
+	return command.permission.capability === 'full' ? ' (Manage Server permission)' : ' (Admin only)';
+}
+
+// Run a command after checking its permission. Unknown commands, missing rights and
+// handler failures are answered here, so handlers only deal with their own work.
+export async function runCommand(name: string, ctx: CommandContext): Promise<void> {
+	const command = getCommand(name);
+	if (!command) {
+		await ctx.reply({ content: 'Unknown command.', ephemeral: true });
+		return;
+	}
+	const { permission } = command;
+	if (
+		permission &&
+		!(permission.capability === 'full' ? ctx.hasFullRights : ctx.can(permission.capability))
+	) {
+		await ctx.reply({ content: permission.denied, ephemeral: true });
+		return;
+	}
+	try {
+		await command.execute(ctx);
+	} catch (error) {
+		console.error(`Command /${name} failed:`, error);
+		// A handler may have failed after answering or deferring, which rules out a reply
+		const failure = { content: 'Something went wrong. Please try again.', ephemeral: true };
+		try {
+			if (ctx.replied) {
+				await ctx.followUp(failure);
+			} else if (ctx.deferred) {
+				await ctx.editReply(failure.content);
+			} else {
+				await ctx.reply(failure);
+			}
+		} catch (replyError) {
+			console.error(`Could not report the /${name} failure:`, replyError);
+		}
+	}
+}
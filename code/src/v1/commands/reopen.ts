@@ -0,0 +1,28 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { updateMatch } from '../db';
+import { matchOption } from './options';
+import { transitionMatch, resolveMatch } from './shared';
+import { Command } from './types';
+
+export const reopenCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('reopen')
+		.setDescription('Admin: Reopen a closed poll for predictions')
+		.addStringOption(matchOption),
+	permission: { capability: 'setup', denied: 'Only admins can reopen the poll.' },
+	help: [
+		'Reopen a closed poll so predictions can be made again.',
+	],
+	async execute(ctx) {
+		const currentMatch = await resolveMatch(
+			ctx,
+			['locked'],
+			'No active match to reopen.'
+		);
+		if (!currentMatch) return;
+		if (!(await transitionMatch(ctx, currentMatch, 'open'))) return;
+		// A manual reopen overrides the scheduled lock
+		updateMatch({ id: currentMatch.id, autoLock: false });
+		await ctx.reply('Poll reopened. Predictions are accepted again.');
+	},
+};
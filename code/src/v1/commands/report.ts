@@ -0,0 +1,70 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { buildReport } from '../report';
+import { isIsoDate } from '../scheduler';
+import { Command } from './types';
+
+export const reportCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('report')
+		.setDescription('Admin: Build an HTML season report to share outside Discord')
+		.addStringOption((option) =>
+			option
+				.setName('from')
+				.setDescription('Only matches on or after this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('to')
+				.setDescription('Only matches on or before this date (YYYY-MM-DD)')
+				.setRequired(false)
+		)
+		.addIntegerOption((option) =>
+			option
+				.setName('season')
+				.setDescription('Only matches in this season year (e.g., 2025)')
+				.setMinValue(2000)
+				.setMaxValue(2100)
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('title')
+				.setDescription('Report title (defaults to "Season report")')
+				.setRequired(false)
+		),
+	permission: { capability: 'export', denied: 'Only admins can build reports.' },
+	help: [
+		'Build a self-contained HTML report with the leaderboard, accuracy charts and every match with its predictions.',
+		'Optional: from/to (YYYY-MM-DD), season (year), title',
+	],
+	async execute(ctx) {
+		const season = ctx.options.getInteger('season');
+		const fromDate = ctx.options.getString('from') ?? (season ? `${season}-01-01` : null);
+		const toDate = ctx.options.getString('to') ?? (season ? `${season}-12-31` : null);
+		if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+			await ctx.reply({
+				content: 'Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).',
+				ephemeral: true,
+			});
+			return;
+		}
+		const title = ctx.options.getString('title') ?? (season ? `Season report ${season}` : undefined);
+		const report = buildReport(
+			{ guildId: ctx.guildId, fromDate: fromDate ?? undefined, toDate: toDate ?? undefined },
+			title
+		);
+		if (!report) {
+			await ctx.reply({
+				content: 'No settled matches found for those filters.',
+				ephemeral: true,
+			});
+			return;
+		}
+		await ctx.reply({
+			content: 'Season report attached - open it in a browser or host it anywhere.',
+			files: [report],
+			ephemeral: false,
+		});
+	},
+};
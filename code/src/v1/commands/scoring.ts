@@ -0,0 +1,59 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { getSetting, setSetting } from '../db';
+import { SCORING_RULES, getScoringRule, getTiebreaker, tiebreakerName } from '../scoring';
+import { getSeasonScoringRule } from '../settings';
+import { tiebreakerOption, scoringOption } from './options';
+import { Command } from './types';
+
+export const scoringCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('scoring')
+		.setDescription("Show the scoring rules, or (admin) set the season's rule for new matches")
+		.addStringOption((option) =>
+			scoringOption(option, 'New season scoring rule (admin only)')
+		)
+		.addStringOption((option) =>
+			tiebreakerOption(option, 'New season tiebreaker (admin only)')
+		),
+	help: [
+		"Show the available scoring rules and the season's rule.",
+		"Admins: pass scoring to change the season's rule for new matches, or tiebreaker to change how equal predictions are split.",
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const scoringId = ctx.options.getString('scoring');
+		const tiebreakerId = ctx.options.getString('tiebreaker');
+		if (scoringId || tiebreakerId) {
+			if (!ctx.can('setup')) {
+				await ctx.reply({
+					content: 'Only admins can change the scoring rule or tiebreaker.',
+					ephemeral: true,
+				});
+				return;
+			}
+			const changes: string[] = [];
+			if (scoringId) {
+				setSetting(guildId, 'scoringRule', scoringId);
+				changes.push(`Season scoring rule set to ${getScoringRule(scoringId).name}.`);
+			}
+			if (tiebreakerId) {
+				setSetting(guildId, 'tiebreaker', tiebreakerId);
+				changes.push(
+					`Season tiebreaker set to ${tiebreakerName(getTiebreaker(tiebreakerId))}.`
+				);
+			}
+			await ctx.reply(`${changes.join(' ')} Existing matches keep their settings.`);
+			return;
+		}
+		const seasonRule = getSeasonScoringRule(guildId);
+		const seasonTiebreaker = getTiebreaker(getSetting(guildId, 'tiebreaker'));
+		const rulesMsg = SCORING_RULES.map(
+			(rule) =>
+				`**${rule.name}**${rule.id === seasonRule.id ? ' (season rule)' : ''}: ${rule.description}`
+		).join('\n');
+		await ctx.reply({
+			content: `Scoring rules:\n${rulesMsg}\n\nTiebreaker: ${tiebreakerName(seasonTiebreaker)}`,
+			ephemeral: true,
+		});
+	},
+};
@@ -0,0 +1,61 @@
+import { ChannelType, SlashCommandBuilder } from 'discord.js';
+import { getSetting, setSetting, getAdminGrants } from '../db';
+import { isValidTimeZone } from '../scheduler';
+import { getTiebreaker, tiebreakerName } from '../scoring';
+import { getSeasonScoringRule, getGuildTimeZone } from '../settings';
+import { Command } from './types';
+
+export const settingsCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('settings')
+		.setDescription("Show or change this server's settings (Manage Server permission required)")
+		.addChannelOption((option) =>
+			option
+				.setName('announce')
+				.setDescription('Channel for automatic lock announcements (defaults to where a match was set up)')
+				.addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('timezone')
+				.setDescription('Time zone for start times, e.g. Asia/Kolkata or Europe/London')
+				.setRequired(false)
+		),
+	permission: {
+		capability: 'full',
+		denied: 'Only members with the Manage Server permission can change server settings.',
+	},
+	help: [
+		"Show this server's settings.",
+		'Optional: announce (channel for automatic lock announcements), timezone (e.g. Asia/Kolkata, used for start times)',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const announce = ctx.options.getChannel('announce');
+		const newTimeZone = ctx.options.getString('timezone');
+		if (newTimeZone && !isValidTimeZone(newTimeZone)) {
+			await ctx.reply({
+				content: `Unknown time zone "${newTimeZone}". Use a name such as Asia/Kolkata or Europe/London.`,
+				ephemeral: true,
+			});
+			return;
+		}
+		if (announce) setSetting(guildId, 'announceChannel', announce.id);
+		if (newTimeZone) setSetting(guildId, 'timeZone', newTimeZone);
+		const announceChannel = getSetting(guildId, 'announceChannel');
+		const seasonTiebreaker = getTiebreaker(getSetting(guildId, 'tiebreaker'));
+		await ctx.reply({
+			content: [
+				announce || newTimeZone ? 'Settings updated.\n' : '',
+				`Announcements: ${announceChannel ? `<#${announceChannel}>` : 'where each match was set up'}`,
+				`Time zone: ${getGuildTimeZone(guildId) ?? `bot default (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}`,
+				`Season scoring rule: ${getSeasonScoringRule(guildId).name} | Tiebreaker: ${tiebreakerName(seasonTiebreaker)} (change with /scoring)`,
+				`Admin grants: ${getAdminGrants(guildId).length} (see /admin list)`,
+			]
+				.filter(Boolean)
+				.join('\n'),
+			ephemeral: true,
+		});
+	},
+};
@@ -0,0 +1,184 @@
+import { SlashCommandBuilder } from 'discord.js';
+import { insertMatch, insertQuestion, newMatchId } from '../db';
+import { QUESTION_PRESETS, DEFAULT_QUESTION_POINTS, parsePresetKeys } from '../questions';
+import { parseStartTime, formatTimestamp, scheduleLock } from '../scheduler';
+import { MATCH_FORMATS, DEFAULT_MATCH_FORMAT, getScoringRule } from '../scoring';
+import { getSeasonScoringRule, getGuildTimeZone } from '../settings';
+import { scoringOption, teamOption, tossOption } from './options';
+import { swapSides } from './shared';
+import { Command } from './types';
+
+export const setupCommand: Command = {
+	definition: new SlashCommandBuilder()
+		.setName('setup')
+		.setDescription('Admin: Setup a new match')
+		.addStringOption((option) => teamOption(option, 'batting', 'Batting team').setRequired(true))
+		.addStringOption((option) =>
+			option.setName('venue').setDescription('Venue').setAutocomplete(true).setRequired(true)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('start')
+				.setDescription('Start time, YYYY-MM-DD HH:mm (predictions lock then) or just YYYY-MM-DD')
+				.setRequired(true)
+		)
+		.addStringOption((option) => teamOption(option, 'bowling', 'Bowling team'))
+		.addStringOption((option) => tossOption(option, 'Toss outcome (defaults to not done yet)'))
+		.addStringOption((option) =>
+			option
+				.setName('innings')
+				.setDescription('Innings to predict; both makes a fixture with a prediction per innings')
+				.addChoices(
+					{ name: '1st innings', value: '1' },
+					{ name: '2nd innings', value: '2' },
+					{ name: 'Both innings', value: 'both' }
+				)
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			scoringOption(option, "Scoring rule for this match (defaults to the season's rule)")
+		)
+		.addStringOption((option) =>
+			option
+				.setName('format')
+				.setDescription('Match format, used to sanity-check scores (defaults to T20)')
+				.addChoices(...MATCH_FORMATS.map((f) => ({ name: f.name, value: f.id })))
+				.setRequired(false)
+		)
+		.addBooleanOption((option) =>
+			option
+				.setName('sealed')
+				.setDescription('Hide predictions until the poll closes')
+				.setRequired(false)
+		)
+		.addBooleanOption((option) =>
+			option
+				.setName('unique')
+				.setDescription('Each score can only be predicted once (first come, first served)')
+				.setRequired(false)
+		)
+		.addStringOption((option) =>
+			option
+				.setName('questions')
+				.setDescription(
+					`Extra questions, comma-separated: ${QUESTION_PRESETS.map((p) => p.key).join(', ')}`
+				)
+				.setRequired(false)
+		),
+	permission: { capability: 'setup', denied: 'Only admins can setup a match.' },
+	help: [
+		'Setup a new match.',
+		"Options: batting (team), venue, start (YYYY-MM-DD HH:mm in the server's time zone, see /settings). Teams and venues are suggested from earlier matches.",
+		"Optional: bowling (team), toss (who won it), innings (1st, 2nd or both), format (T20, ODI, Test or The Hundred; defaults to T20), scoring (defaults to the season's rule), sealed (hide picks until the poll closes), unique (each score can only be taken once), questions (extra questions: winner, toss, top-scorer, powerplay, chase)",
+		'Predictions lock automatically at the start time.',
+		'Pick both innings (with a bowling team) to set up a fixture: each innings is a match of its own (IDs <id> and <id>-2) that members predict separately.',
+	],
+	async execute(ctx) {
+		const { guildId } = ctx;
+		const timeZone = getGuildTimeZone(guildId);
+		const teamName = ctx.options.getString('batting', true);
+		const opponent = ctx.options.getString('bowling');
+		const toss = ctx.options.getString('toss') ?? 'pending';
+		const innings = ctx.options.getString('innings');
+		const venue = ctx.options.getString('venue', true);
+		const start = parseStartTime(ctx.options.getString('start', true), timeZone);
+		const scoringId = ctx.options.getString('scoring');
+		const scoringRule = scoringId ? getScoringRule(scoringId) : getSeasonScoringRule(guildId);
+		if (!start) {
+			await ctx.reply({
+				content: 'Invalid start time. Use YYYY-MM-DD HH:mm (e.g., 2025-03-22 19:30).',
+				ephemeral: true,
+			});
+			return;
+		}
+		if (start.startsAt !== null && start.startsAt <= Date.now()) {
+			await ctx.reply({
+				content: 'The start time is in the past.',
+				ephemeral: true,
+			});
+			return;
+		}
+		if (opponent && opponent.toLowerCase() === teamName.toLowerCase()) {
+			await ctx.reply({
+				content: 'The batting and bowling teams must be different.',
+				ephemeral: true,
+			});
+			return;
+		}
+		if (innings === 'both' && !opponent) {
+			await ctx.reply({
+				content: 'A fixture with both innings needs the bowling team too.',
+				ephemeral: true,
+			});
+			return;
+		}
+		const { presets, unknown } = parsePresetKeys(ctx.options.getString('questions') ?? '');
+		if (unknown.length) {
+			await ctx.reply({
+				content: `Unknown question(s): ${unknown.join(', ')}. Available: ${QUESTION_PRESETS.map((p) => p.key).join(', ')}`,
+				ephemeral: true,
+			});
+			return;
+		}
+
+		const id = newMatchId();
+		const isFixture = innings === 'both';
+		const fixture = {
+			teamName,
+			toss,
+			venue,
+			matchDate: start.matchDate,
+			status: 'open' as const,
+			channelId: ctx.channelId,
+			scoringRule: scoringRule.id,
+			sealed: ctx.options.getBoolean('sealed') ?? false,
+			uniqueScores: ctx.options.getBoolean('unique') ?? false,
+			opponent,
+			format: ctx.options.getString('format') ?? DEFAULT_MATCH_FORMAT,
+			guildId,
+		};
+		insertMatch({
+			...fixture,
+			id,
+			startsAt: start.startsAt,
+			fixtureId: isFixture ? id : null,
+			innings: isFixture ? 1 : innings ? Number(innings) : null,
+		});
+		// The second innings has no start time: it stays open until the innings break
+		const secondId = `${id}-2`;
+		if (isFixture) {
+			insertMatch({
+				...fixture,
+				...swapSides(fixture),
+				id: secondId,
+				startsAt: null,
+				fixtureId: id,
+				innings: 2,
+			});
+		}
+		for (const preset of presets) {
+			insertQuestion({
+				matchId: id,
+				prompt: preset.prompt,
+				kind: preset.kind,
+				choices: preset.choices(teamName, opponent),
+				points: DEFAULT_QUESTION_POINTS,
+			});
+		}
+		if (start.startsAt !== null) {
+			scheduleLock(id, start.startsAt);
+		}
+		await ctx.reply(
+			`${isFixture
+				? `Fixture ${teamName} v ${opponent} set up. 1st innings ID: ${id}, 2nd innings ID: ${secondId}`
+				: `Match setup complete with ID: ${id}`
+			} (scoring: ${scoringRule.name})${start.startsAt !== null
+				? `\nPredictions lock automatically at ${formatTimestamp(start.startsAt, timeZone)}.`
+				: ''
+			}${presets.length
+				? `\nExtra questions: ${presets.map((p) => p.name).join(', ')} - answer them with /question answer.`
+				: ''
+			}`
+		);
+	},
+};
@@ -0,0 +1,223 @@
+import { EmbedBuilder } from 'discord.js';
+import {
+	updateMatch,
+	getPredictionsForMatch,
+	getActiveMatches,
+	getMatch,
+	getQuestionsForMatch,
+	getAnswersForQuestion,
+	getFixtureInnings,
+	PredictionRow,
+	MatchRow,
+	MatchStatus,
+} from '../db';
+import {
+	describeMatch,
+	formatMatchTitle,
+	formatCombinedEntry,
+	formatPrediction,
+	formatScore,
+	sortPredictions,
+} from '../format';
+import { buildCombinedStandings } from '../leaderboard';
+import { canTransition, transitionError } from '../lifecycle';
+import { buildPages } from '../pagination';
+import { formatQuestionResult } from '../questions';
+import { cancelLock } from '../scheduler';
+import {
+	Score,
+	getScoringRule,
+	tiebreakerName,
+	Tiebreaker,
+	RankedPrediction,
+} from '../scoring';
+import { CommandContext } from './types';
+
+// Helpers shared by the command handlers
+
+// Helper: a parsed score as runs/wickets, pointing out when a bare number was read as all out
+export function describeParsedScore(parsed: { score: Score; allOutAssumed: boolean }): string {
+	const { runs, wickets } = parsed.score;
+	return `${formatScore(runs, wickets)}${parsed.allOutAssumed ? ` (read as all out - give the wickets, e.g. ${runs}/6, if you meant otherwise)` : ''}`;
+}
+
+// Helper: announce the winner(s) of a ranked match, naming the tiebreaker when it decided things
+// Winners named in a shared win; the rest are counted, so a big tie stays within Discord's
+// message limits
+const MAX_WINNERS_SHOWN = 10;
+
+export function describeWinners(
+	ranked: RankedPrediction<PredictionRow>[],
+	tiebreaker: Tiebreaker
+): string {
+	const winners = ranked.filter((entry) => entry.rank === 1);
+	const pick = (entry: RankedPrediction<PredictionRow>) =>
+		`${entry.prediction.username} (${entry.prediction.runs}/${entry.prediction.wickets})`;
+	if (winners.length > 1) {
+		const named = winners.slice(0, MAX_WINNERS_SHOWN).map(pick);
+		const more = winners.length - named.length;
+		return `It's a tie! Shared win: ${named.join(', ')}${more ? ` and ${more} more` : ''}`;
+	}
+	const tiedOnResult = ranked.filter((entry) => entry.result === winners[0].result).length > 1;
+	const decidedBy = tiedOnResult
+		? ` on tiebreaker (${tiebreakerName(tiebreaker).toLowerCase()})`
+		: '';
+	return `${pick(winners[0])} wins${decidedBy}!`;
+}
+
+// Helper: a match by ID, only when it belongs to the guild asking for it
+export function getGuildMatch(guildId: string, matchId: string): MatchRow | undefined {
+	const match = getMatch(matchId);
+	return match?.guildId === guildId ? match : undefined;
+}
+
+// Helper: move a match to a new status, replying with an error if the transition is not allowed
+export async function transitionMatch(
+	ctx: CommandContext,
+	match: MatchRow,
+	to: MatchStatus
+): Promise<boolean> {
+	if (!canTransition(match.status, to)) {
+		await ctx.reply({
+			content: transitionError(match.status, to),
+			ephemeral: true,
+		});
+		return false;
+	}
+	updateMatch({ id: match.id, status: to });
+	// Any pending automatic lock is moot once the match leaves the open state
+	cancelLock(match.id);
+	return true;
+}
+
+// Helper: pick the match a command applies to. An explicit `match` option wins; otherwise
+// the only active match, or the only one in a preferred status (e.g. the single open
+// match for /predict). Replies with an explanation and returns null when none fits.
+export async function resolveMatch(
+	ctx: CommandContext,
+	preferred: MatchStatus[],
+	noMatchMessage: string
+): Promise<MatchRow | null> {
+	const guildId = ctx.guildId;
+	const matchId = ctx.options.getString('match');
+	if (matchId) {
+		const match = getGuildMatch(guildId, matchId);
+		if (!match || (match.status !== 'open' && match.status !== 'locked')) {
+			await ctx.reply({
+				content: `Match ${matchId} is not an active match.`,
+				ephemeral: true,
+			});
+			return null;
+		}
+		return match;
+	}
+
+	const active = getActiveMatches(guildId);
+	if (!active.length) {
+		await ctx.reply({ content: noMatchMessage, ephemeral: true });
+		return null;
+	}
+	if (active.length === 1) return active[0];
+	const candidates = active.filter((m) => preferred.includes(m.status));
+	if (candidates.length === 1) return candidates[0];
+
+	await ctx.reply({
+		content: `Several matches are running. Pick one with the match option:\n${active
+			.map(describeMatch)
+			.join('\n')}`,
+		ephemeral: true,
+	});
+	return null;
+}
+
+// Helper: result line for every extra question of a match
+export function questionResults(matchId: string): string[] {
+	return getQuestionsForMatch(matchId).map((q) =>
+		formatQuestionResult(q, getAnswersForQuestion(q.id))
+	);
+}
+
+// Helper: match details as seen from the other innings of a fixture, where the batting and
+// bowling teams swap and the toss winner is on the other side
+export function swapSides(details: { teamName?: string; opponent?: string | null; toss?: string }): {
+	teamName?: string;
+	opponent?: string;
+	toss?: string;
+} {
+	const tossSwap: { [toss: string]: string } = { batting: 'bowling', bowling: 'batting' };
+	return {
+		teamName: details.opponent ?? undefined,
+		opponent: details.teamName,
+		toss: details.toss !== undefined ? (tossSwap[details.toss] ?? details.toss) : undefined,
+	};
+}
+
+// Helper: combined standings of a two-innings fixture, once every innings is settled
+export function combinedStandings(match: MatchRow): string[] | null {
+	if (!match.fixtureId) return null;
+	const innings = getFixtureInnings(match.fixtureId);
+	if (innings.some((m) => m.status !== 'settled')) return null;
+	const rule = getScoringRule(innings[0].scoringRule);
+	return buildCombinedStandings(
+		innings.map((m) => ({ match: m, predictions: getPredictionsForMatch(m.id) })),
+		rule
+	).map((entry) => formatCombinedEntry(entry, rule));
+}
+
+// Helper: free scores closest to a taken one - same wickets with nearby runs first, then
+// the same runs with a wicket more or less
+function nearbyFreeScores(score: Score, taken: Set<string>, count = 5): Score[] {
+	const candidates: Score[] = [];
+	for (let delta = 1; delta <= 20; delta++) {
+		candidates.push({ runs: score.runs - delta, wickets: score.wickets });
+		candidates.push({ runs: score.runs + delta, wickets: score.wickets });
+		if (delta === 1) {
+			candidates.push({ runs: score.runs, wickets: score.wickets - 1 });
+			candidates.push({ runs: score.runs, wickets: score.wickets + 1 });
+		}
+	}
+	return candidates
+		.filter((c) => c.runs >= 0 && c.wickets >= 0 && c.wickets <= 10)
+		.filter((c) => !taken.has(formatScore(c.runs, c.wickets)))
+		.slice(0, count);
+}
+
+// Helper: explain that a unique-score match already has this pick and suggest free ones
+export async function replyScoreTaken(
+	ctx: CommandContext,
+	match: MatchRow,
+	score: Score
+): Promise<void> {
+	const taken = new Set(
+		getPredictionsForMatch(match.id)
+			.filter((p) => p.userId !== ctx.user.id)
+			.map((p) => formatScore(p.runs, p.wickets))
+	);
+	const free = nearbyFreeScores(score, taken).map((s) => formatScore(s.runs, s.wickets));
+	await ctx.reply({
+		content: `${formatScore(score.runs, score.wickets)} has already been taken - this match needs unique scores.${free.length ? ` Nearby free scores: ${free.join(', ')}` : ''}`,
+		ephemeral: true,
+	});
+}
+
+// Sealed view: who has predicted, without their picks
+export function sealedPages(match: MatchRow, title: string): EmbedBuilder[] {
+	const predictions = sortPredictions(getPredictionsForMatch(match.id), 'time', match);
+	return buildPages({
+		title,
+		header: `Predictions are sealed until the poll closes. ${predictions.length} member(s) have predicted:`,
+		lines: predictions.map((p) => p.username),
+		emptyText: 'No predictions yet.',
+	});
+}
+
+// Announcement revealing every pick of a sealed match once it locks
+export function revealPages(match: MatchRow): EmbedBuilder[] {
+	return buildPages({
+		title: `Predictions revealed - ${formatMatchTitle(match)}`,
+		lines: sortPredictions(getPredictionsForMatch(match.id), 'score', match).map((p) =>
+			formatPrediction(p)
+		),
+		emptyText: 'No predictions were made.',
+	});
+}
@@ -0,0 +1,74 @@
+import { EmbedBuilder } from 'discord.js';
+import { Capability } from '../permissions';
+
+// The small slice of a slash command interaction that handlers use. The bot adapts
+// discord.js interactions to it (see discord.ts), and tests can supply their own.
+
+export interface CommandUser {
+	id: string;
+	username: string;
+}
+
+export interface CommandOptions {
+	getString(name: string, required: true): string;
+	getString(name: string, required?: boolean): string | null;
+	getInteger(name: string, required: true): number;
+	getInteger(name: string, required?: boolean): number | null;
+	getBoolean(name: string, required?: boolean): boolean | null;
+	getUser(name: string, required?: boolean): CommandUser | null;
+	getRole(name: string, required?: boolean): { id: string } | null;
+	getChannel(name: string, required?: boolean): { id: string } | null;
+	getAttachment(name: string, required: true): { name: string; url: string };
+	getSubcommand(): string;
+}
+
+// Files are sent as attachments, e.g. the /export JSON and CSV files
+export interface ReplyFile {
+	name: string;
+	content: string;
+}
+
+export interface ReplyMessage {
+	content?: string;
+	ephemeral?: boolean;
+	files?: ReplyFile[];
+}
+
+export interface CommandContext {
+	// Commands only run inside a guild, which owns every match and setting they touch
+	guildId: string;
+	channelId: string;
+	user: CommandUser;
+	options: CommandOptions;
+	// Rights of the user running the command
+	can(capability: Capability): boolean;
+	isAdmin: boolean;
+	hasFullRights: boolean;
+	reply(message: string | ReplyMessage): Promise<void>;
+	// For slow commands: acknowledge now, answer later with editReply
+	deferReply(options?: { ephemeral?: boolean }): Promise<void>;
+	editReply(content: string): Promise<void>;
+	// Another message after the reply
+	followUp(message: string | ReplyMessage): Promise<void>;
+	// Whether the interaction has been answered or acknowledged so far
+	readonly replied: boolean;
+	readonly deferred: boolean;
+	// Embeds built with buildPages, with Previous/Next buttons when there is more than one
+	sendPages(pages: EmbedBuilder[], options?: { ephemeral?: boolean; followUp?: boolean }): Promise<void>;
+}
+
+// What a command needs before its handler runs: a capability, or full rights ('full')
+export interface CommandPermission {
+	capability: Capability | 'full';
+	// Reply when the user lacks it
+	denied: string;
+}
+
+export interface Command {
+	// Slash command definition, usually a SlashCommandBuilder
+	definition: { name: string; toJSON(): unknown };
+	permission?: CommandPermission;
+	// Bullet points for /help
+	help: string[];
+	execute(ctx: CommandContext): Promise<void>;
+}
@@ -0,0 +1,113 @@
+import { formatScore } from './format';
+import { RankedPrediction, Score, ScoringRule, compareResults, formatResult } from './scoring';
+
+// Crowd statistics over a match's predictions: where the server as a whole expects the
+// innings to end and how far apart the picks are. Shown by /list once the poll is locked
+// and by /end.
+
+// Fewer predictions than this are not much of a crowd
+export const MIN_CROWD = 2;
+
+const HISTOGRAM_BUCKETS = 8;
+const HISTOGRAM_WIDTH = 20;
+
+export interface CrowdStats {
+	count: number;
+	mean: number;
+	median: number;
+	min: number;
+	max: number;
+	// Population standard deviation of predicted runs
+	stdDev: number;
+	// Median runs and wickets, rounded to a score: the crowd's own prediction
+	consensus: Score;
+}
+
+// Helper: median of a non-empty list
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Helper: a statistic with at most one decimal, e.g. "172" or "171.5"
+function formatStat(value: number): string {
+	return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+}
+
+// Helper: 1st, 2nd, 3rd, 4th, ..., 11th, 21st
+function ordinal(n: number): string {
+	const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : (['th', 'st', 'nd', 'rd'][n % 10] ?? 'th');
+	return `${n}${suffix}`;
+}
+
+// Statistics of predicted runs, or null when there are no predictions
+export function crowdStats(predictions: Score[]): CrowdStats | null {
+	if (!predictions.length) return null;
+	const runs = predictions.map((p) => p.runs);
+	const mean = runs.reduce((sum, r) => sum + r, 0) / runs.length;
+	const variance = runs.reduce((sum, r) => sum + (r - mean) ** 2, 0) / runs.length;
+	return {
+		count: runs.length,
+		mean,
+		median: median(runs),
+		min: Math.min(...runs),
+		max: Math.max(...runs),
+		stdDev: Math.sqrt(variance),
+		consensus: {
+			runs: Math.round(median(runs)),
+			wickets: Math.round(median(predictions.map((p) => p.wickets))),
+		},
+	};
+}
+
+export function formatCrowdStats(stats: CrowdStats): string[] {
+	return [
+		`Mean ${formatStat(stats.mean)} | median ${formatStat(stats.median)} | range ${stats.min}-${stats.max} | std dev ${formatStat(stats.stdDev)}`,
+		`Consensus pick: ${formatScore(stats.consensus.runs, stats.consensus.wickets)}`,
+	];
+}
+
+// Text histogram of predicted runs in a code block. Buckets are the smallest round size that
+// fits the spread into HISTOGRAM_BUCKETS rows, e.g. 160-169, 170-179.
+export function runsHistogram(runs: number[]): string {
+	const min = Math.min(...runs);
+	const max = Math.max(...runs);
+	const size =
+		[5, 10, 20, 25, 50, 100, 200].find(
+			(s) => Math.floor(max / s) - Math.floor(min / s) < HISTOGRAM_BUCKETS
+		) ?? 500;
+	const first = Math.floor(min / size);
+	const counts: number[] = new Array(Math.floor(max / size) - first + 1).fill(0);
+	for (const r of runs) counts[Math.floor(r / size) - first]++;
+	const peak = Math.max(...counts);
+	const labels = counts.map((_, idx) => `${(first + idx) * size}-${(first + idx + 1) * size - 1}`);
+	const labelWidth = Math.max(...labels.map((label) => label.length));
+	const rows = counts.map((count, idx) => {
+		const bar = '█'.repeat(Math.max(1, Math.round((count / peak) * HISTOGRAM_WIDTH)));
+		return `${labels[idx].padStart(labelWidth)} |${count ? ` ${bar} ${count}` : ''}`;
+	});
+	return `\`\`\`\n${rows.join('\n')}\n\`\`\``;
+}
+
+// How the consensus pick would have done had it been entered, against the ranked individual
+// predictions of a settled match
+export function crowdVerdict(
+	consensus: Score,
+	actual: Score,
+	rule: ScoringRule,
+	ranked: RankedPrediction<{ username: string }>[]
+): string {
+	const result = rule.evaluate(consensus, actual);
+	const pick = `The consensus pick ${formatScore(consensus.runs, consensus.wickets)} (${formatResult(rule, result)})`;
+	const winners = ranked.filter((entry) => entry.rank === 1);
+	const winnerNames = winners.map((entry) => entry.prediction.username).join(', ');
+	const winnerResult = formatResult(rule, winners[0].result);
+	const place = 1 + ranked.filter((entry) => compareResults(rule, entry.result, result) < 0).length;
+	if (place > 1) {
+		return `${pick} would have ranked ${ordinal(place)} of ${ranked.length + 1} - the crowd lost to ${winnerNames} (${winnerResult}).`;
+	}
+	return compareResults(rule, result, winners[0].result) < 0
+		? `${pick} would have beaten everyone, including ${winnerNames} (${winnerResult}) - the crowd was wiser.`
+		: `${pick} would have tied with ${winnerNames} for 1st.`;
+}
@@ -1,44 +1,75 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { runMigrations } from './migrations';
 
-const dbPath = path.resolve(__dirname, '../../data/cricket.db');
-const db = new Database(dbPath);
-
-// Create tables if they don't exist, including a comment column for predictions.
-db.exec(`
-CREATE TABLE IF NOT EXISTS matches (
-  id TEXT PRIMARY KEY,
-  teamName TEXT NOT NULL,
-  toss TEXT NOT NULL,
-  venue TEXT NOT NULL,
-  matchDate TEXT NOT NULL,
-  isOpen INTEGER NOT NULL,
-  actualRuns INTEGER,
-  actualWickets INTEGER
-);
-
-CREATE TABLE IF NOT EXISTS predictions (
-  matchId TEXT,
-  userId TEXT,
-  username TEXT,
-  runs INTEGER,
-  wickets INTEGER,
-  comment TEXT,
-  PRIMARY KEY (matchId, userId),
-  FOREIGN KEY (matchId) REFERENCES matches(id)
-);
-`);
+// Helper: open a database file (or ':memory:') and create or upgrade its tables;
+// see migrations.ts for the schema history
+const openAndMigrate = (file: string): Database.Database => {
+  const opened = new Database(file);
+  runMigrations(opened, file);
+  return opened;
+};
+
+// DB_PATH overrides the database file, e.g. ':memory:' for tests
+let db = openAndMigrate(process.env.DB_PATH ?? path.resolve(__dirname, '../../data/cricket.db'));
+
+// Switch every function below to another database, closing the current one
+export const openDatabase = (file: string): void => {
+  db.close();
+  db = openAndMigrate(file);
+};
+
+// Readiness check for the HTTP API: true when the database answers a query
+export const isDatabaseReady = (): boolean => {
+  try {
+    return db.prepare(`SELECT 1 AS ok`).get() !== undefined;
+  } catch {
+    return false;
+  }
+};
+
+// Lifecycle of a match: open -> locked -> settled, or cancelled/abandoned before settling.
+export type MatchStatus = 'open' | 'locked' | 'settled' | 'cancelled' | 'abandoned';
 
 export interface MatchRow {
   id: string;
+  // Batting team
   teamName: string;
+  // Toss outcome: 'batting' or 'bowling' for the team that won it, 'pending' before the
+  // toss, or free text for matches set up before it was structured
   toss: string;
   venue: string;
   matchDate: string;
-  // 0 or 1 
+  // 0 or 1, kept in sync with status (1 only while open)
   isOpen: number;
   actualRuns: number | null;
   actualWickets: number | null;
+  status: MatchStatus;
+  // Scheduled start as a Unix timestamp in milliseconds
+  startsAt: number | null;
+  // 0 or 1: lock predictions automatically at startsAt (cleared by /reopen)
+  autoLock: number;
+  // Channel where the match was set up, used for scheduled announcements
+  channelId: string | null;
+  // Scoring rule ID fixed at setup, so later rule changes don't rescore the match
+  scoringRule: string;
+  // Tiebreaker applied when the match was settled (null before that)
+  tiebreaker: string | null;
+  // 0 or 1: hide everyone's picks until predictions lock
+  sealed: number;
+  // 0 or 1: each runs/wickets combination may only be predicted by one member
+  uniqueScores: number;
+  // Bowling team, null when not given
+  opponent: string | null;
+  // A two-innings fixture is stored as one match per innings, linked by the first
+  // innings' ID (null otherwise). Teams swap sides between the innings.
+  fixtureId: string | null;
+  // 1 or 2, null when the match isn't tied to an innings
+  innings: number | null;
+  // 't20', 'odi', 'test' or 'hundred'; bounds the runs accepted in scores
+  format: string;
+  // Discord server the match belongs to; predictions and questions follow their match
+  guildId: string | null;
 }
 
 export interface PredictionRow {
@@ -48,12 +79,68 @@ export interface PredictionRow {
   runs: number;
   wickets: number;
   comment: string | null;
+  // Unix timestamps in milliseconds of the first submission and of the current pick;
+  // null for predictions made before they were recorded
+  submittedAt: number | null;
+  updatedAt: number | null;
+  // Number of times the prediction was changed after the first submission
+  editCount: number;
+}
+
+export interface PredictionHistoryRow {
+  id: number;
+  matchId: string;
+  userId: string;
+  username: string;
+  runs: number;
+  wickets: number;
+  comment: string | null;
+  // Unix timestamp in milliseconds
+  createdAt: number;
+}
+
+export interface QuestionRow {
+  id: number;
+  matchId: string;
+  prompt: string;
+  // 'choice', 'number' or 'score'
+  kind: string;
+  // JSON array of allowed answers for choice questions, null for free text
+  choices: string | null;
+  points: number;
+  // Correct answer once settled
+  answer: string | null;
+}
+
+export interface AnswerRow {
+  questionId: number;
+  userId: string;
+  username: string;
+  value: string;
+}
+
+export interface AdminGrantRow {
+  guildId: string;
+  targetType: 'user' | 'role';
+  targetId: string;
+  // A capability ID, or 'all'
+  capability: string;
 }
 
 // When joining with match data, include actual scores:
 export type PredictionWithMatch = PredictionRow & {
   actualRuns: number;
   actualWickets: number;
+  scoringRule: string;
+  tiebreaker: string | null;
+};
+
+// A match ID not taken in any guild: the time in milliseconds, moved past the highest
+// existing ID when matches are set up in the same millisecond
+export const newMatchId = (): string => {
+  const stmt = db.prepare(`SELECT MAX(CAST(id AS INTEGER)) AS highest FROM matches`);
+  const { highest } = stmt.get() as { highest: number | null };
+  return String(Math.max(Date.now(), (highest ?? 0) + 1));
 };
 
 export const insertMatch = (match: {
@@ -62,48 +149,91 @@ export const insertMatch = (match: {
   toss: string;
   venue: string;
   matchDate: string;
-  isOpen: boolean;
+  status: MatchStatus;
+  startsAt: number | null;
+  channelId: string | null;
+  scoringRule: string;
+  sealed: boolean;
+  uniqueScores: boolean;
+  opponent?: string | null;
+  fixtureId?: string | null;
+  innings?: number | null;
+  format?: string;
+  guildId: string;
 }): void => {
   const stmt = db.prepare(`
-    INSERT INTO matches (id, teamName, toss, venue, matchDate, isOpen)
-    VALUES (@id, @teamName, @toss, @venue, @matchDate, @isOpen)
+    INSERT INTO matches (id, teamName, toss, venue, matchDate, isOpen, status, startsAt, autoLock, channelId, scoringRule,
+      sealed, uniqueScores, opponent, fixtureId, innings, format, guildId)
+    VALUES (@id, @teamName, @toss, @venue, @matchDate, @isOpen, @status, @startsAt, @autoLock, @channelId, @scoringRule,
+      @sealed, @uniqueScores, @opponent, @fixtureId, @innings, @format, @guildId)
   `);
-  stmt.run({ ...match, isOpen: match.isOpen ? 1 : 0 });
+  stmt.run({
+    ...match,
+    opponent: match.opponent ?? null,
+    fixtureId: match.fixtureId ?? null,
+    innings: match.innings ?? null,
+    format: match.format ?? 't20',
+    sealed: match.sealed ? 1 : 0,
+    uniqueScores: match.uniqueScores ? 1 : 0,
+    isOpen: match.status === 'open' ? 1 : 0,
+    autoLock: match.startsAt !== null ? 1 : 0,
+  });
 };
 
 export const updateMatch = (match: {
   id: string;
-  isOpen?: boolean;
+  status?: MatchStatus;
   actualRuns?: number;
   actualWickets?: number;
   teamName?: string;
+  opponent?: string;
   toss?: string;
   venue?: string;
   matchDate?: string;
+  // null clears a scheduled start time
+  startsAt?: number | null;
+  autoLock?: boolean;
+  tiebreaker?: string;
+  sealed?: boolean;
 }): void => {
   const stmt = db.prepare(`
     UPDATE matches SET 
+      status = COALESCE(@status, status),
       isOpen = COALESCE(@isOpen, isOpen),
       actualRuns = COALESCE(@actualRuns, actualRuns),
       actualWickets = COALESCE(@actualWickets, actualWickets),
       teamName = COALESCE(@teamName, teamName),
+      opponent = COALESCE(@opponent, opponent),
       toss = COALESCE(@toss, toss),
       venue = COALESCE(@venue, venue),
-      matchDate = COALESCE(@matchDate, matchDate)
+      matchDate = COALESCE(@matchDate, matchDate),
+      startsAt = CASE WHEN @setStartsAt = 1 THEN @startsAt ELSE startsAt END,
+      autoLock = COALESCE(@autoLock, autoLock),
+      tiebreaker = COALESCE(@tiebreaker, tiebreaker),
+      sealed = COALESCE(@sealed, sealed)
     WHERE id = @id
   `);
   stmt.run({
     id: match.id,
-    isOpen: match.isOpen !== undefined ? (match.isOpen ? 1 : 0) : undefined,
+    status: match.status,
+    isOpen: match.status !== undefined ? (match.status === 'open' ? 1 : 0) : undefined,
     actualRuns: match.actualRuns,
     actualWickets: match.actualWickets,
     teamName: match.teamName,
+    opponent: match.opponent,
     toss: match.toss,
     venue: match.venue,
     matchDate: match.matchDate,
+    startsAt: match.startsAt ?? null,
+    setStartsAt: match.startsAt !== undefined ? 1 : 0,
+    autoLock: match.autoLock !== undefined ? (match.autoLock ? 1 : 0) : undefined,
+    tiebreaker: match.tiebreaker,
+    sealed: match.sealed !== undefined ? (match.sealed ? 1 : 0) : undefined,
   });
 };
 
+// Save a member's pick and record it in the history. Returns false without saving when the
+// match requires unique scores and another member already predicted this one.
 export const insertOrUpdatePrediction = (prediction: {
   matchId: string;
   userId: string;
@@ -111,17 +241,37 @@ export const insertOrUpdatePrediction = (prediction: {
   runs: number;
   wickets: number;
   comment?: string;
-}): void => {
+}): boolean => {
+  // In unique-score matches a combination belongs to whoever picked it first
+  const takenStmt = db.prepare(`
+    SELECT 1 FROM predictions p
+    JOIN matches m ON p.matchId = m.id
+    WHERE p.matchId = @matchId AND p.userId != @userId AND p.runs = @runs AND p.wickets = @wickets
+      AND m.uniqueScores = 1
+  `);
+  const historyStmt = db.prepare(`
+    INSERT INTO prediction_history (matchId, userId, username, runs, wickets, comment, createdAt)
+    VALUES (@matchId, @userId, @username, @runs, @wickets, @comment, @now)
+  `);
   const stmt = db.prepare(`
-    INSERT INTO predictions (matchId, userId, username, runs, wickets, comment)
-    VALUES (@matchId, @userId, @username, @runs, @wickets, @comment)
+    INSERT INTO predictions (matchId, userId, username, runs, wickets, comment, submittedAt, updatedAt)
+    VALUES (@matchId, @userId, @username, @runs, @wickets, @comment, @now, @now)
     ON CONFLICT(matchId, userId) DO UPDATE SET
       username = excluded.username,
       runs = excluded.runs,
       wickets = excluded.wickets,
-      comment = excluded.comment
+      comment = excluded.comment,
+      updatedAt = excluded.updatedAt,
+      editCount = editCount + 1
   `);
-  stmt.run(prediction);
+  const params = { ...prediction, comment: prediction.comment ?? null, now: Date.now() };
+  // Keep the current pick and its history in step
+  return db.transaction(() => {
+    if (takenStmt.get(params)) return false;
+    stmt.run(params);
+    historyStmt.run(params);
+    return true;
+  })();
 };
 
 export const getPredictionsForMatch = (matchId: string): PredictionRow[] => {
@@ -129,45 +279,159 @@ export const getPredictionsForMatch = (matchId: string): PredictionRow[] => {
   return stmt.all(matchId) as PredictionRow[];
 };
 
-export const getPastMatches = (): MatchRow[] => {
-  const stmt = db.prepare(`SELECT * FROM matches WHERE isOpen = 0 ORDER BY matchDate DESC`);
-  return stmt.all() as MatchRow[];
+// Submission history for a match, optionally for one user, oldest first
+export const getPredictionHistory = (matchId: string, userId?: string): PredictionHistoryRow[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM prediction_history
+    WHERE matchId = @matchId AND (@userId IS NULL OR userId = @userId)
+    ORDER BY createdAt, id
+  `);
+  return stmt.all({ matchId, userId: userId ?? null }) as PredictionHistoryRow[];
+};
+
+export const getPastMatches = (guildId: string): MatchRow[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM matches
+    WHERE guildId = ? AND status IN ('settled', 'abandoned')
+    ORDER BY matchDate DESC
+  `);
+  return stmt.all(guildId) as MatchRow[];
+};
+
+// Active matches are those still open or locked, oldest first. They are read from the
+// database rather than kept in memory so restarts don't orphan them. Without a guild,
+// active matches of every guild are returned.
+export const getActiveMatches = (guildId?: string): MatchRow[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM matches
+    WHERE status IN ('open', 'locked') AND (@guildId IS NULL OR guildId = @guildId)
+    ORDER BY id
+  `);
+  return stmt.all({ guildId: guildId ?? null }) as MatchRow[];
+};
+
+// All matches in any status, optionally limited to one match or a matchDate range
+export const getMatches = (filters: {
+  guildId: string;
+  matchId?: string;
+  fromDate?: string;
+  toDate?: string;
+}): MatchRow[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM matches
+    WHERE guildId = @guildId
+      AND (@matchId IS NULL OR id = @matchId)
+      AND (@fromDate IS NULL OR matchDate >= @fromDate)
+      AND (@toDate IS NULL OR matchDate <= @toDate)
+    ORDER BY matchDate, id
+  `);
+  return stmt.all({
+    guildId: filters.guildId,
+    matchId: filters.matchId ?? null,
+    fromDate: filters.fromDate ?? null,
+    toDate: filters.toDate ?? null,
+  }) as MatchRow[];
+};
+
+export const getMatch = (matchId: string): MatchRow | null => {
+  const stmt = db.prepare(`SELECT * FROM matches WHERE id = ?`);
+  return (stmt.get(matchId) as MatchRow | undefined) ?? null;
+};
+
+// Team and venue names used so far, for autocomplete
+export const getKnownTeams = (guildId: string): string[] => {
+  const stmt = db.prepare(`
+    SELECT teamName AS name FROM matches WHERE guildId = @guildId
+    UNION SELECT opponent FROM matches WHERE guildId = @guildId AND opponent IS NOT NULL
+    ORDER BY name
+  `);
+  return (stmt.all({ guildId }) as { name: string }[]).map((row) => row.name);
+};
+
+export const getKnownVenues = (guildId: string): string[] => {
+  const stmt = db.prepare(`SELECT DISTINCT venue FROM matches WHERE guildId = ? ORDER BY venue`);
+  return (stmt.all(guildId) as { venue: string }[]).map((row) => row.venue);
+};
+
+// Every innings of a two-innings fixture, first innings first
+export const getFixtureInnings = (fixtureId: string): MatchRow[] => {
+  const stmt = db.prepare(`SELECT * FROM matches WHERE fixtureId = ? ORDER BY innings`);
+  return stmt.all(fixtureId) as MatchRow[];
 };
 
 export const getMatchDetails = (
   matchId: string
 ): { match: MatchRow; predictions: PredictionRow[] } | null => {
-  const matchStmt = db.prepare(`SELECT * FROM matches WHERE id = ?`);
-  const match = matchStmt.get(matchId) as MatchRow | undefined;
+  const match = getMatch(matchId);
   if (!match) return null;
   const predictions = getPredictionsForMatch(matchId);
   return { match, predictions };
 };
 
 // Get all predictions across past matches for a given user with actual match scores
-export const getUserStats = (userId: string): PredictionWithMatch[] => {
+export const getUserStats = (userId: string, guildId: string): PredictionWithMatch[] => {
   const stmt = db.prepare(`
-    SELECT p.*, m.actualRuns, m.actualWickets 
+    SELECT p.*, m.actualRuns, m.actualWickets, m.scoringRule, m.tiebreaker
     FROM predictions p
     JOIN matches m ON p.matchId = m.id
-    WHERE p.userId = ? AND m.isOpen = 0 AND m.actualRuns IS NOT NULL AND m.actualWickets IS NOT NULL
+    WHERE p.userId = ? AND m.guildId = ? AND m.status = 'settled'
   `);
-  return stmt.all(userId) as PredictionWithMatch[];
+  return stmt.all(userId, guildId) as PredictionWithMatch[];
 };
 
+// Window for season stats within a guild: the last N settled matches and/or a matchDate
+// range, optionally limited to one match or to matches scored under one rule
+export interface StatsWindow {
+  guildId: string;
+  matchId?: string;
+  lastMatches?: number;
+  fromDate?: string;
+  toDate?: string;
+  scoringRule?: string;
+}
+
 // Get all predictions from past matches grouped by user with match data
-export const getAllUserStats = (): {
+export const getAllUserStats = (window: StatsWindow): {
   userId: string;
   username: string;
   predictions: PredictionWithMatch[];
 }[] => {
+  const conditions = [`m.status = 'settled'`, `m.guildId = @guildId`];
+  const params: Record<string, string | number> = { guildId: window.guildId };
+  if (window.fromDate) {
+    conditions.push(`m.matchDate >= @fromDate`);
+    params.fromDate = window.fromDate;
+  }
+  if (window.toDate) {
+    conditions.push(`m.matchDate <= @toDate`);
+    params.toDate = window.toDate;
+  }
+  if (window.matchId) {
+    conditions.push(`m.id = @matchId`);
+    params.matchId = window.matchId;
+  }
+  if (window.scoringRule) {
+    conditions.push(`m.scoringRule = @scoringRule`);
+    params.scoringRule = window.scoringRule;
+  }
+  if (window.lastMatches) {
+    // Restrict to the most recent settled matches within the date range
+    conditions.push(`m.id IN (
+      SELECT m.id FROM matches m
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.matchDate DESC, m.id DESC
+      LIMIT @lastMatches
+    )`);
+    params.lastMatches = window.lastMatches;
+  }
   const stmt = db.prepare(`
-    SELECT p.userId, p.username, p.runs, p.wickets, p.comment, m.actualRuns, m.actualWickets 
+    SELECT p.*, m.actualRuns, m.actualWickets, m.scoringRule, m.tiebreaker
     FROM predictions p
     JOIN matches m ON p.matchId = m.id
-    WHERE m.isOpen = 0 AND m.actualRuns IS NOT NULL AND m.actualWickets IS NOT NULL
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY p.matchId, p.userId
   `);
-  const rows = stmt.all() as Array<PredictionWithMatch>;
+  const rows = stmt.all(params) as Array<PredictionWithMatch>;
 
   // Group by userId
   const grouped: { [userId: string]: { username: string; predictions: PredictionWithMatch[] } } = {};
@@ -184,9 +448,173 @@ export const getAllUserStats = (): {
   }));
 };
 
-export const deleteMatch = (matchId: string): void => {
-  const deletePredStmt = db.prepare(`DELETE FROM predictions WHERE matchId = ?`);
-  deletePredStmt.run(matchId);
-  const deleteMatchStmt = db.prepare(`DELETE FROM matches WHERE id = ?`);
-  deleteMatchStmt.run(matchId);
+export const getSetting = (guildId: string, key: string): string | null => {
+  const stmt = db.prepare(`SELECT value FROM guild_settings WHERE guildId = ? AND key = ?`);
+  const row = stmt.get(guildId, key) as { value: string } | undefined;
+  return row ? row.value : null;
+};
+
+export const setSetting = (guildId: string, key: string, value: string): void => {
+  const stmt = db.prepare(`
+    INSERT INTO guild_settings (guildId, key, value) VALUES (?, ?, ?)
+    ON CONFLICT(guildId, key) DO UPDATE SET value = excluded.value
+  `);
+  stmt.run(guildId, key, value);
+};
+
+// Hand matches, admin grants and settings from before multi-guild support to a guild.
+// Returns the number of matches claimed.
+export const claimLegacyData = (guildId: string): number => {
+  return db.transaction(() => {
+    db.prepare(`
+      INSERT OR IGNORE INTO guild_settings (guildId, key, value) SELECT ?, key, value FROM settings
+    `).run(guildId);
+    db.exec(`DELETE FROM settings`);
+    db.prepare(`UPDATE admin_grants SET guildId = ? WHERE guildId IS NULL`).run(guildId);
+    return db.prepare(`UPDATE matches SET guildId = ? WHERE guildId IS NULL`).run(guildId).changes;
+  })();
+};
+
+// Returns false when the grant already existed
+export const addAdminGrant = (grant: AdminGrantRow): boolean => {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO admin_grants (guildId, targetType, targetId, capability)
+    VALUES (@guildId, @targetType, @targetId, @capability)
+  `);
+  return stmt.run(grant).changes > 0;
+};
+
+// Remove one capability, or every grant of the target when none is given. Returns the number removed.
+export const removeAdminGrants = (
+  guildId: string,
+  targetType: AdminGrantRow['targetType'],
+  targetId: string,
+  capability?: string
+): number => {
+  const stmt = db.prepare(`
+    DELETE FROM admin_grants
+    WHERE guildId = @guildId AND targetType = @targetType AND targetId = @targetId
+      AND (@capability IS NULL OR capability = @capability)
+  `);
+  return stmt.run({ guildId, targetType, targetId, capability: capability ?? null }).changes;
+};
+
+export const getAdminGrants = (guildId: string): AdminGrantRow[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM admin_grants WHERE guildId = ? ORDER BY targetType, targetId, capability
+  `);
+  return stmt.all(guildId) as AdminGrantRow[];
+};
+
+// Helper: run several statements atomically (used by imports)
+export const runInTransaction = <T>(fn: () => T): T => db.transaction(fn)();
+
+// Restore a full match row as exported, replacing any row with the same ID
+export const restoreMatch = (match: MatchRow): void => {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO matches (id, teamName, toss, venue, matchDate, isOpen, actualRuns, actualWickets,
+      status, startsAt, autoLock, channelId, scoringRule, tiebreaker, sealed, uniqueScores, opponent, fixtureId, innings,
+      format, guildId)
+    VALUES (@id, @teamName, @toss, @venue, @matchDate, @isOpen, @actualRuns, @actualWickets,
+      @status, @startsAt, @autoLock, @channelId, @scoringRule, @tiebreaker, @sealed, @uniqueScores, @opponent,
+      @fixtureId, @innings, @format, @guildId)
+  `);
+  stmt.run(match);
+};
+
+// Restore a full prediction row as exported, replacing the user's pick for that match
+export const restorePrediction = (prediction: PredictionRow): void => {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO predictions (matchId, userId, username, runs, wickets, comment,
+      submittedAt, updatedAt, editCount)
+    VALUES (@matchId, @userId, @username, @runs, @wickets, @comment,
+      @submittedAt, @updatedAt, @editCount)
+  `);
+  stmt.run(prediction);
+};
+
+// Restore an exported history entry; it gets a fresh ID but keeps its timestamp
+export const restorePredictionHistory = (entry: Omit<PredictionHistoryRow, 'id'>): void => {
+  const stmt = db.prepare(`
+    INSERT INTO prediction_history (matchId, userId, username, runs, wickets, comment, createdAt)
+    VALUES (@matchId, @userId, @username, @runs, @wickets, @comment, @createdAt)
+  `);
+  stmt.run(entry);
+};
+
+export const getPrediction = (matchId: string, userId: string): PredictionRow | null => {
+  const stmt = db.prepare(`SELECT * FROM predictions WHERE matchId = ? AND userId = ?`);
+  return (stmt.get(matchId, userId) as PredictionRow | undefined) ?? null;
+};
+
+// Remove every match of a guild with its predictions, history and questions (settings are kept)
+export const deleteAllMatches = (guildId: string): void => {
+  const guildMatches = `SELECT id FROM matches WHERE guildId = @guildId`;
+  for (const sql of [
+    `DELETE FROM answers WHERE questionId IN (SELECT id FROM questions WHERE matchId IN (${guildMatches}))`,
+    `DELETE FROM questions WHERE matchId IN (${guildMatches})`,
+    `DELETE FROM prediction_history WHERE matchId IN (${guildMatches})`,
+    `DELETE FROM predictions WHERE matchId IN (${guildMatches})`,
+    `DELETE FROM matches WHERE guildId = @guildId`,
+  ]) {
+    db.prepare(sql).run({ guildId });
+  }
+};
+
+export const insertQuestion = (question: {
+  matchId: string;
+  prompt: string;
+  kind: string;
+  choices: string[] | null;
+  points: number;
+}): number => {
+  const stmt = db.prepare(`
+    INSERT INTO questions (matchId, prompt, kind, choices, points)
+    VALUES (@matchId, @prompt, @kind, @choices, @points)
+  `);
+  const result = stmt.run({
+    ...question,
+    choices: question.choices ? JSON.stringify(question.choices) : null,
+  });
+  return Number(result.lastInsertRowid);
+};
+
+// Restore an exported question under a fresh ID (IDs from another database may be taken)
+export const restoreQuestion = (question: Omit<QuestionRow, 'id'>): number => {
+  const stmt = db.prepare(`
+    INSERT INTO questions (matchId, prompt, kind, choices, points, answer)
+    VALUES (@matchId, @prompt, @kind, @choices, @points, @answer)
+  `);
+  return Number(stmt.run(question).lastInsertRowid);
+};
+
+export const getQuestionsForMatch = (matchId: string): QuestionRow[] => {
+  const stmt = db.prepare(`SELECT * FROM questions WHERE matchId = ? ORDER BY id`);
+  return stmt.all(matchId) as QuestionRow[];
+};
+
+export const getQuestion = (questionId: number): QuestionRow | null => {
+  const stmt = db.prepare(`SELECT * FROM questions WHERE id = ?`);
+  return (stmt.get(questionId) as QuestionRow | undefined) ?? null;
+};
+
+export const setQuestionAnswer = (questionId: number, answer: string): void => {
+  const stmt = db.prepare(`UPDATE questions SET answer = ? WHERE id = ?`);
+  stmt.run(answer, questionId);
+};
+
+export const insertOrUpdateAnswer = (answer: AnswerRow): void => {
+  const stmt = db.prepare(`
+    INSERT INTO answers (questionId, userId, username, value)
+    VALUES (@questionId, @userId, @username, @value)
+    ON CONFLICT(questionId, userId) DO UPDATE SET
+      username = excluded.username,
+      value = excluded.value
+  `);
+  stmt.run(answer);
+};
+
+export const getAnswersForQuestion = (questionId: number): AnswerRow[] => {
+  const stmt = db.prepare(`SELECT * FROM answers WHERE questionId = ? ORDER BY username`);
+  return stmt.all(questionId) as AnswerRow[];
 };
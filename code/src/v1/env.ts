@@ -0,0 +1,5 @@
+import { config } from 'dotenv';
+
+// Load .env into process.env. Imported first by the entry points, since the database is
+// opened as soon as db.ts is imported and reads DB_PATH then.
+config();
@@ -0,0 +1,156 @@
+import {
+	getMatches,
+	getPredictionsForMatch,
+	getAllUserStats,
+	getQuestionsForMatch,
+	getAnswersForQuestion,
+	getPredictionHistory,
+	MatchRow,
+	PredictionRow,
+	PredictionHistoryRow,
+	QuestionRow,
+	AnswerRow,
+} from './db';
+import { buildLeaderboard } from './leaderboard';
+import { getScoringRule } from './scoring';
+
+export interface ExportFilters {
+	guildId: string;
+	matchId?: string;
+	fromDate?: string;
+	toDate?: string;
+}
+
+export interface UserStatsRow {
+	userId: string;
+	username: string;
+	scoringRule: string;
+	matches: number;
+	average: number;
+	wins: number;
+}
+
+// Shape of the JSON export; bump version when it changes incompatibly
+export interface ExportData {
+	version: 1;
+	exportedAt: string;
+	filters: ExportFilters;
+	matches: MatchRow[];
+	predictions: PredictionRow[];
+	// Every submission and edit, so an import keeps the audit trail behind editCount
+	history: PredictionHistoryRow[];
+	questions: QuestionRow[];
+	answers: AnswerRow[];
+	userStats: UserStatsRow[];
+}
+
+export interface ExportFile {
+	name: string;
+	content: string;
+}
+
+// Collect matches in any status with their predictions, history and extra questions, plus settled per-user stats.
+// Stats are grouped by scoring rule since results under different rules don't add up.
+export function buildExport(filters: ExportFilters): ExportData {
+	const matches = getMatches(filters);
+	const predictions = matches.flatMap((m) => getPredictionsForMatch(m.id));
+	const history = matches.flatMap((m) => getPredictionHistory(m.id));
+	const questions = matches.flatMap((m) => getQuestionsForMatch(m.id));
+	const answers = questions.flatMap((q) => getAnswersForQuestion(q.id));
+	const ruleIds = [...new Set(matches.filter((m) => m.status === 'settled').map((m) => m.scoringRule))];
+	const userStats = ruleIds.flatMap((ruleId) => {
+		const rule = getScoringRule(ruleId);
+		return buildLeaderboard(getAllUserStats({ ...filters, scoringRule: ruleId }), rule).map(
+			(entry) => ({
+				userId: entry.userId,
+				username: entry.username,
+				scoringRule: rule.id,
+				matches: entry.matches,
+				average: entry.average,
+				wins: entry.wins,
+			})
+		);
+	});
+	return {
+		version: 1,
+		exportedAt: new Date().toISOString(),
+		filters,
+		matches,
+		predictions,
+		history,
+		questions,
+		answers,
+		userStats,
+	};
+}
+
+// Helper: quote a CSV field when it contains a separator, quote or newline
+function csvField(value: unknown): string {
+	const text = value === null || value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Helper: render rows as CSV with a header line, using the given column order
+function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+	const lines = [columns.join(',')];
+	for (const row of rows) {
+		lines.push(columns.map((column) => csvField(row[column])).join(','));
+	}
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+export function exportToJson(data: ExportData): ExportFile {
+	return { name: 'export.json', content: JSON.stringify(data, null, 2) };
+}
+
+export function exportToCsv(data: ExportData): ExportFile[] {
+	return [
+		{
+			name: 'matches.csv',
+			content: toCsv(data.matches, [
+				'id',
+				'teamName',
+				'opponent',
+				'toss',
+				'venue',
+				'matchDate',
+				'format',
+				'status',
+				'startsAt',
+				'actualRuns',
+				'actualWickets',
+				'scoringRule',
+				'tiebreaker',
+				'sealed',
+				'uniqueScores',
+				'fixtureId',
+				'innings',
+			]),
+		},
+		{
+			name: 'predictions.csv',
+			content: toCsv(data.predictions, [
+				'matchId',
+				'userId',
+				'username',
+				'runs',
+				'wickets',
+				'comment',
+				'submittedAt',
+				'updatedAt',
+				'editCount',
+			]),
+		},
+		{
+			name: 'user-stats.csv',
+			content: toCsv(data.userStats, [
+				'userId',
+				'username',
+				'scoringRule',
+				'matches',
+				'average',
+				'wins',
+			]),
+		},
+	];
+}
@@ -0,0 +1,130 @@
+import { MatchRow, PredictionRow, PredictionHistoryRow } from './db';
+import { formatTimestamp } from './scheduler';
+import { CombinedEntry, LeaderboardEntry } from './leaderboard';
+import { ScoringRule, formatResult, getMatchFormat, getScoringRule } from './scoring';
+
+// Shared text formatting for command output, so every command presents matches,
+// predictions and standings the same way.
+
+export type PredictionSort = 'score' | 'name' | 'time';
+
+export const PREDICTION_SORTS: { id: PredictionSort; name: string }[] = [
+	{ id: 'score', name: 'By score' },
+	{ id: 'name', name: 'By name' },
+	{ id: 'time', name: 'By submission time' },
+];
+
+// Who won the toss, relative to the match's batting and bowling teams
+export type TossOutcome = 'batting' | 'bowling' | 'pending';
+
+export const TOSS_OUTCOMES: { id: TossOutcome; name: string }[] = [
+	{ id: 'batting', name: 'Batting team won the toss' },
+	{ id: 'bowling', name: 'Bowling team won the toss' },
+	{ id: 'pending', name: 'Toss not done yet' },
+];
+
+export function formatToss(match: MatchRow): string {
+	if (match.toss === 'batting') return `${match.teamName} won the toss and chose to bat`;
+	if (match.toss === 'bowling') {
+		return `${match.opponent ?? 'The bowling team'} won the toss and chose to bowl`;
+	}
+	if (match.toss === 'pending') return 'Not done yet';
+	// Free text from matches set up before toss outcomes were structured
+	return match.toss;
+}
+
+export function formatScore(runs: number, wickets: number): string {
+	return `${runs}/${wickets}`;
+}
+
+// Start time when one was scheduled (in the guild's time zone), otherwise the match date
+export function formatMatchDate(match: MatchRow, timeZone?: string): string {
+	return match.startsAt !== null ? formatTimestamp(match.startsAt, timeZone) : match.matchDate;
+}
+
+export function formatInnings(innings: number): string {
+	return innings === 1 ? '1st innings' : '2nd innings';
+}
+
+// Batting v bowling team, plus the innings when known, e.g. "CSK v MI (2nd innings)"
+export function formatMatchTitle(match: MatchRow): string {
+	const teams = match.opponent ? `${match.teamName} v ${match.opponent}` : match.teamName;
+	return match.innings ? `${teams} (${formatInnings(match.innings)})` : teams;
+}
+
+// One-line label for a match, used in autocomplete and selection prompts
+export function describeMatch(match: MatchRow): string {
+	return `${formatMatchTitle(match)} - ${match.matchDate} (${match.status}, ID: ${match.id})`;
+}
+
+export function formatMatchLine(match: MatchRow, timeZone?: string): string {
+	return `ID: ${match.id} | Team: ${formatMatchTitle(match)} | Date: ${formatMatchDate(match, timeZone)}${match.status === 'abandoned' ? ' | Abandoned' : ''}`;
+}
+
+// Multi-line header with everything known about a match
+export function formatMatchHeader(match: MatchRow, timeZone?: string): string {
+	return [
+		`Match ID: ${match.id}`,
+		match.opponent
+			? `Batting: ${match.teamName} | Bowling: ${match.opponent}`
+			: `Team: ${match.teamName}`,
+		...(match.innings ? [`Innings: ${match.innings}`] : []),
+		`Toss: ${formatToss(match)}`,
+		`Venue: ${match.venue}`,
+		`Format: ${getMatchFormat(match.format).name}`,
+		`Date: ${formatMatchDate(match, timeZone)}`,
+		`Status: ${match.status}`,
+		`Scoring: ${getScoringRule(match.scoringRule).name}`,
+		`Actual: ${match.actualRuns !== null ? formatScore(match.actualRuns, match.actualWickets ?? 0) : 'N/A'}`,
+	].join('\n');
+}
+
+export function formatPrediction(prediction: PredictionRow, result?: string): string {
+	return `**${prediction.username}**: ${formatScore(prediction.runs, prediction.wickets)}${result ? ` (${result})` : ''}${prediction.comment ? ` - ${prediction.comment}` : ''}`;
+}
+
+export function formatHistoryEntry(entry: PredictionHistoryRow, timeZone?: string): string {
+	return `${formatTimestamp(entry.createdAt, timeZone)} **${entry.username}**: ${formatScore(entry.runs, entry.wickets)}${entry.comment ? ` - ${entry.comment}` : ''}`;
+}
+
+export function formatLeaderboardEntry(
+	entry: LeaderboardEntry,
+	position: number,
+	rule: ScoringRule
+): string {
+	return `${position}. **${entry.username}**: average ${formatResult(rule, entry.average)} | ${entry.matches} played | ${entry.wins} won | best ${formatScore(entry.best.runs, entry.best.wickets)} (${formatResult(rule, entry.bestResult)})`;
+}
+
+export function formatCombinedEntry(entry: CombinedEntry, rule: ScoringRule): string {
+	return `${entry.rank}. **${entry.username}**: ${formatResult(rule, entry.total)} (${entry.results
+		.map((result, idx) => `${formatInnings(idx + 1)}: ${formatResult(rule, result)}`)
+		.join(', ')})`;
+}
+
+// Order predictions for display. "score" ranks by result once the match is settled and by
+// predicted runs (highest first) before that; "time" uses when the current pick was made.
+export function sortPredictions(
+	predictions: PredictionRow[],
+	sort: PredictionSort,
+	match: MatchRow
+): PredictionRow[] {
+	const byName = (a: PredictionRow, b: PredictionRow) => a.username.localeCompare(b.username);
+	const sorted = [...predictions];
+	if (sort === 'name') return sorted.sort(byName);
+	if (sort === 'time') {
+		return sorted.sort(
+			(a, b) => (a.updatedAt ?? Infinity) - (b.updatedAt ?? Infinity) || byName(a, b)
+		);
+	}
+	if (match.actualRuns !== null && match.actualWickets !== null) {
+		const rule = getScoringRule(match.scoringRule);
+		const actual = { runs: match.actualRuns, wickets: match.actualWickets };
+		const resultOf = (p: PredictionRow) => rule.evaluate({ runs: p.runs, wickets: p.wickets }, actual);
+		return sorted.sort(
+			(a, b) =>
+				(rule.lowerIsBetter ? resultOf(a) - resultOf(b) : resultOf(b) - resultOf(a)) ||
+				byName(a, b)
+		);
+	}
+	return sorted.sort((a, b) => b.runs - a.runs || a.wickets - b.wickets || byName(a, b));
+}
@@ -0,0 +1,31 @@
+// Offline import of an /export JSON file, e.g. when moving to a new host:
+//   node dist/v1/import-cli.js export.json --guild <guild id> [--replace] [--dry-run]
+import './env';
+import fs from 'fs';
+import { parseImport, applyImport, describeImport } from './import';
+
+const args = process.argv.slice(2);
+const guildIdx = args.indexOf('--guild');
+const guildId = guildIdx >= 0 ? args[guildIdx + 1] : undefined;
+const file = args.find((arg, idx) => !arg.startsWith('--') && (guildIdx < 0 || idx !== guildIdx + 1));
+if (!file || !guildId) {
+	console.error('Usage: node dist/v1/import-cli.js <export.json> --guild <guild id> [--replace] [--dry-run]');
+	process.exit(1);
+}
+const mode = args.includes('--replace') ? 'replace' : 'merge';
+const dryRun = args.includes('--dry-run');
+
+let json: unknown;
+try {
+	json = JSON.parse(fs.readFileSync(file, 'utf8'));
+} catch (error) {
+	console.error(`Could not read ${file}:`, error);
+	process.exit(1);
+}
+
+const parsed = parseImport(json);
+if ('errors' in parsed) {
+	console.error(`Invalid export file:\n${parsed.errors.join('\n')}`);
+	process.exit(1);
+}
+console.log(describeImport(applyImport(parsed, mode, guildId, dryRun), dryRun));
@@ -0,0 +1,377 @@
+import {
+	getMatch,
+	getPrediction,
+	restoreMatch,
+	restorePrediction,
+	restorePredictionHistory,
+	restoreQuestion,
+	insertOrUpdateAnswer,
+	deleteAllMatches,
+	runInTransaction,
+	MatchRow,
+	MatchStatus,
+	PredictionRow,
+	PredictionHistoryRow,
+	QuestionRow,
+	AnswerRow,
+} from './db';
+import { isScoringRuleId, DEFAULT_SCORING_RULE, MATCH_FORMATS, DEFAULT_MATCH_FORMAT } from './scoring';
+
+// merge: add new rows and keep existing ones on conflict; replace: wipe all matches first
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportReport {
+	matchesAdded: number;
+	predictionsAdded: number;
+	// Extra questions are only brought in with the matches that are added
+	questionsAdded: number;
+	// Rows already present with identical data
+	unchanged: number;
+	// Rows present with different data; kept as they are when merging
+	conflicts: string[];
+}
+
+const STATUSES: MatchStatus[] = ['open', 'locked', 'settled', 'cancelled', 'abandoned'];
+
+// Helper: check one field of an imported row, collecting a readable error when it is invalid
+function field<T>(
+	row: Record<string, unknown>,
+	key: string,
+	path: string,
+	errors: string[],
+	check: (value: unknown) => value is T,
+	expected: string,
+	fallback?: T
+): T {
+	const value = row[key];
+	if (value === undefined && fallback !== undefined) return fallback;
+	if (!check(value)) {
+		errors.push(`${path}.${key} must be ${expected}`);
+	}
+	return value as T;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isIntOrNull = (v: unknown): v is number | null => v === null || Number.isInteger(v);
+const isStringOrNull = (v: unknown): v is string | null => v === null || typeof v === 'string';
+
+function parseMatch(raw: unknown, path: string, errors: string[]): MatchRow | null {
+	if (typeof raw !== 'object' || raw === null) {
+		errors.push(`${path} must be an object`);
+		return null;
+	}
+	const row = raw as Record<string, unknown>;
+	const count = errors.length;
+	const actualRuns = field(row, 'actualRuns', path, errors, isIntOrNull, 'an integer or null');
+	const isOpen = field(row, 'isOpen', path, errors, (v): v is number => v === 0 || v === 1, '0 or 1');
+	// Exports made before statuses existed are mapped the same way as the database upgrade
+	const legacyStatus: MatchStatus = actualRuns !== null ? 'settled' : isOpen ? 'open' : 'locked';
+	const match: MatchRow = {
+		id: field(row, 'id', path, errors, isString, 'a string'),
+		teamName: field(row, 'teamName', path, errors, isString, 'a string'),
+		toss: field(row, 'toss', path, errors, isString, 'a string'),
+		venue: field(row, 'venue', path, errors, isString, 'a string'),
+		matchDate: field(row, 'matchDate', path, errors, isString, 'a string'),
+		isOpen,
+		actualRuns,
+		actualWickets: field(row, 'actualWickets', path, errors, isIntOrNull, 'an integer or null'),
+		status: field(
+			row,
+			'status',
+			path,
+			errors,
+			(v): v is MatchStatus => STATUSES.includes(v as MatchStatus),
+			`one of ${STATUSES.join(', ')}`,
+			legacyStatus
+		),
+		startsAt: field(row, 'startsAt', path, errors, isIntOrNull, 'a timestamp or null', null),
+		autoLock: field(row, 'autoLock', path, errors, (v): v is number => v === 0 || v === 1, '0 or 1', 0),
+		channelId: field(row, 'channelId', path, errors, isStringOrNull, 'a string or null', null),
+		scoringRule: field(
+			row,
+			'scoringRule',
+			path,
+			errors,
+			(v): v is string => typeof v === 'string' && isScoringRuleId(v),
+			'a known scoring rule',
+			DEFAULT_SCORING_RULE
+		),
+		tiebreaker: field(row, 'tiebreaker', path, errors, isStringOrNull, 'a string or null', null),
+		sealed: field(row, 'sealed', path, errors, (v): v is number => v === 0 || v === 1, '0 or 1', 0),
+		uniqueScores: field(row, 'uniqueScores', path, errors, (v): v is number => v === 0 || v === 1, '0 or 1', 0),
+		opponent: field(row, 'opponent', path, errors, isStringOrNull, 'a string or null', null),
+		fixtureId: field(row, 'fixtureId', path, errors, isStringOrNull, 'a string or null', null),
+		innings: field(
+			row,
+			'innings',
+			path,
+			errors,
+			(v): v is number | null => v === null || v === 1 || v === 2,
+			'1, 2 or null',
+			null
+		),
+		format: field(
+			row,
+			'format',
+			path,
+			errors,
+			(v): v is string => MATCH_FORMATS.some((f) => f.id === v),
+			`one of ${MATCH_FORMATS.map((f) => f.id).join(', ')}`,
+			DEFAULT_MATCH_FORMAT
+		),
+		// Replaced by the importing guild in applyImport
+		guildId: field(row, 'guildId', path, errors, isStringOrNull, 'a string or null', null),
+	};
+	return errors.length === count ? match : null;
+}
+
+function parsePrediction(raw: unknown, path: string, errors: string[]): PredictionRow | null {
+	if (typeof raw !== 'object' || raw === null) {
+		errors.push(`${path} must be an object`);
+		return null;
+	}
+	const row = raw as Record<string, unknown>;
+	const count = errors.length;
+	const prediction: PredictionRow = {
+		matchId: field(row, 'matchId', path, errors, isString, 'a string'),
+		userId: field(row, 'userId', path, errors, isString, 'a string'),
+		username: field(row, 'username', path, errors, isString, 'a string'),
+		runs: field(row, 'runs', path, errors, isInt, 'an integer'),
+		wickets: field(row, 'wickets', path, errors, isInt, 'an integer'),
+		comment: field(row, 'comment', path, errors, isStringOrNull, 'a string or null', null),
+		submittedAt: field(row, 'submittedAt', path, errors, isIntOrNull, 'a timestamp or null', null),
+		updatedAt: field(row, 'updatedAt', path, errors, isIntOrNull, 'a timestamp or null', null),
+		editCount: field(row, 'editCount', path, errors, isInt, 'an integer', 0),
+	};
+	return errors.length === count ? prediction : null;
+}
+
+function parseHistory(
+	raw: unknown,
+	path: string,
+	errors: string[]
+): Omit<PredictionHistoryRow, 'id'> | null {
+	if (typeof raw !== 'object' || raw === null) {
+		errors.push(`${path} must be an object`);
+		return null;
+	}
+	const row = raw as Record<string, unknown>;
+	const count = errors.length;
+	// The exported ID is dropped: entries are numbered afresh when restored
+	const entry: Omit<PredictionHistoryRow, 'id'> = {
+		matchId: field(row, 'matchId', path, errors, isString, 'a string'),
+		userId: field(row, 'userId', path, errors, isString, 'a string'),
+		username: field(row, 'username', path, errors, isString, 'a string'),
+		runs: field(row, 'runs', path, errors, isInt, 'an integer'),
+		wickets: field(row, 'wickets', path, errors, isInt, 'an integer'),
+		comment: field(row, 'comment', path, errors, isStringOrNull, 'a string or null', null),
+		createdAt: field(row, 'createdAt', path, errors, isInt, 'a timestamp'),
+	};
+	return errors.length === count ? entry : null;
+}
+
+function parseQuestion(raw: unknown, path: string, errors: string[]): QuestionRow | null {
+	if (typeof raw !== 'object' || raw === null) {
+		errors.push(`${path} must be an object`);
+		return null;
+	}
+	const row = raw as Record<string, unknown>;
+	const count = errors.length;
+	const question: QuestionRow = {
+		id: field(row, 'id', path, errors, isInt, 'an integer'),
+		matchId: field(row, 'matchId', path, errors, isString, 'a string'),
+		prompt: field(row, 'prompt', path, errors, isString, 'a string'),
+		kind: field(
+			row,
+			'kind',
+			path,
+			errors,
+			(v): v is string => ['choice', 'number', 'score'].includes(v as string),
+			'one of choice, number, score'
+		),
+		choices: field(row, 'choices', path, errors, isStringOrNull, 'a string or null', null),
+		points: field(row, 'points', path, errors, isInt, 'an integer'),
+		answer: field(row, 'answer', path, errors, isStringOrNull, 'a string or null', null),
+	};
+	return errors.length === count ? question : null;
+}
+
+function parseAnswer(raw: unknown, path: string, errors: string[]): AnswerRow | null {
+	if (typeof raw !== 'object' || raw === null) {
+		errors.push(`${path} must be an object`);
+		return null;
+	}
+	const row = raw as Record<string, unknown>;
+	const count = errors.length;
+	const answer: AnswerRow = {
+		questionId: field(row, 'questionId', path, errors, isInt, 'an integer'),
+		userId: field(row, 'userId', path, errors, isString, 'a string'),
+		username: field(row, 'username', path, errors, isString, 'a string'),
+		value: field(row, 'value', path, errors, isString, 'a string'),
+	};
+	return errors.length === count ? answer : null;
+}
+
+export interface ImportData {
+	matches: MatchRow[];
+	predictions: PredictionRow[];
+	history: Omit<PredictionHistoryRow, 'id'>[];
+	questions: QuestionRow[];
+	answers: AnswerRow[];
+}
+
+// Validate the JSON produced by /export. Returns the rows, or every problem found.
+export function parseImport(json: unknown): ImportData | { errors: string[] } {
+	if (typeof json !== 'object' || json === null) {
+		return { errors: ['The file must contain a JSON object as produced by /export.'] };
+	}
+	const data = json as Record<string, unknown>;
+	if (data.version !== undefined && data.version !== 1) {
+		return { errors: [`Unsupported export version ${String(data.version)}.`] };
+	}
+	if (!Array.isArray(data.matches) || !Array.isArray(data.predictions)) {
+		return { errors: ['The file must have "matches" and "predictions" arrays.'] };
+	}
+
+	const errors: string[] = [];
+	const matches = data.matches
+		.map((raw, idx) => parseMatch(raw, `matches[${idx}]`, errors))
+		.filter((m): m is MatchRow => m !== null);
+	const predictions = data.predictions
+		.map((raw, idx) => parsePrediction(raw, `predictions[${idx}]`, errors))
+		.filter((p): p is PredictionRow => p !== null);
+	// Exports made before the history was exported have no history
+	const history = (Array.isArray(data.history) ? data.history : [])
+		.map((raw, idx) => parseHistory(raw, `history[${idx}]`, errors))
+		.filter((h): h is Omit<PredictionHistoryRow, 'id'> => h !== null);
+	// Exports made before extra questions existed have neither array
+	const questions = (Array.isArray(data.questions) ? data.questions : [])
+		.map((raw, idx) => parseQuestion(raw, `questions[${idx}]`, errors))
+		.filter((q): q is QuestionRow => q !== null);
+	const answers = (Array.isArray(data.answers) ? data.answers : [])
+		.map((raw, idx) => parseAnswer(raw, `answers[${idx}]`, errors))
+		.filter((a): a is AnswerRow => a !== null);
+
+	const ids = new Set<string>();
+	for (const match of matches) {
+		if (ids.has(match.id)) errors.push(`Match ${match.id} appears more than once`);
+		ids.add(match.id);
+	}
+	for (const prediction of predictions) {
+		if (!ids.has(prediction.matchId)) {
+			errors.push(`Prediction by ${prediction.userId} refers to match ${prediction.matchId}, which is not in the file`);
+		}
+	}
+	for (const entry of history) {
+		if (!ids.has(entry.matchId)) {
+			errors.push(`History entry by ${entry.userId} refers to match ${entry.matchId}, which is not in the file`);
+		}
+	}
+	const questionIds = new Set<number>();
+	for (const question of questions) {
+		if (!ids.has(question.matchId)) {
+			errors.push(`Question ${question.id} refers to match ${question.matchId}, which is not in the file`);
+		}
+		questionIds.add(question.id);
+	}
+	for (const answer of answers) {
+		if (!questionIds.has(answer.questionId)) {
+			errors.push(`Answer by ${answer.userId} refers to question ${answer.questionId}, which is not in the file`);
+		}
+	}
+	return errors.length ? { errors } : { matches, predictions, history, questions, answers };
+}
+
+// Helper: compare an existing row with an imported one field by field
+function sameRow<T extends object>(existing: T, incoming: T): boolean {
+	return (Object.keys(incoming) as (keyof T)[]).every((key) => existing[key] === incoming[key]);
+}
+
+// Write validated rows to the database in a single transaction, into the given guild
+// whichever one they were exported from. With dryRun the transaction is rolled back,
+// so the report shows what would happen.
+export function applyImport(
+	data: ImportData,
+	mode: ImportMode,
+	guildId: string,
+	dryRun = false
+): ImportReport {
+	const report: ImportReport = {
+		matchesAdded: 0,
+		predictionsAdded: 0,
+		questionsAdded: 0,
+		unchanged: 0,
+		conflicts: [],
+	};
+	const rollback = new Error('dry run');
+	try {
+		runInTransaction(() => {
+			if (mode === 'replace') deleteAllMatches(guildId);
+			// Matches that conflict are kept as they are, and so are their predictions
+			const skipped = new Set<string>();
+			const added = new Set<string>();
+			for (const imported of data.matches) {
+				const match = { ...imported, guildId };
+				const existing = getMatch(match.id);
+				if (!existing) {
+					restoreMatch(match);
+					added.add(match.id);
+					report.matchesAdded++;
+				} else if (sameRow(existing, match)) {
+					report.unchanged++;
+				} else if (existing.guildId !== guildId) {
+					report.conflicts.push(`Match ${match.id} (${match.teamName}) already exists in another server`);
+					skipped.add(match.id);
+				} else {
+					report.conflicts.push(`Match ${match.id} (${match.teamName}) differs from the existing one`);
+					skipped.add(match.id);
+				}
+			}
+			for (const prediction of data.predictions) {
+				if (skipped.has(prediction.matchId)) continue;
+				const existing = getPrediction(prediction.matchId, prediction.userId);
+				if (!existing) {
+					restorePrediction(prediction);
+					report.predictionsAdded++;
+				} else if (sameRow(existing, prediction)) {
+					report.unchanged++;
+				} else {
+					report.conflicts.push(
+						`Prediction by ${prediction.username} on match ${prediction.matchId} differs from the existing one`
+					);
+				}
+			}
+			// Like questions, the history only comes with the matches that are added
+			for (const entry of data.history) {
+				if (added.has(entry.matchId)) restorePredictionHistory(entry);
+			}
+			// Questions get fresh IDs, so answers are moved over to the new ones
+			for (const { id, ...question } of data.questions) {
+				if (!added.has(question.matchId)) continue;
+				const questionId = restoreQuestion(question);
+				report.questionsAdded++;
+				for (const answer of data.answers.filter((a) => a.questionId === id)) {
+					insertOrUpdateAnswer({ ...answer, questionId });
+				}
+			}
+			if (dryRun) throw rollback;
+		});
+	} catch (error) {
+		if (error !== rollback) throw error;
+	}
+	return report;
+}
+
+// Helper: summarise an import report for Discord or the console
+export function describeImport(report: ImportReport, dryRun: boolean): string {
+	const lines = [
+		`${dryRun ? 'Dry run - nothing was written. ' : ''}Matches added: ${report.matchesAdded}, predictions added: ${report.predictionsAdded}, questions added: ${report.questionsAdded}, unchanged: ${report.unchanged}.`,
+	];
+	if (report.conflicts.length) {
+		lines.push(`Conflicts (existing data kept): ${report.conflicts.length}`);
+		lines.push(...report.conflicts.slice(0, 10).map((c) => `- ${c}`));
+		if (report.conflicts.length > 10) lines.push(`...and ${report.conflicts.length - 10} more`);
+	}
+	return lines.join('\n');
+}
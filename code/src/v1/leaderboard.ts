@@ -0,0 +1,147 @@
+import { MatchRow, PredictionRow, PredictionWithMatch } from './db';
+import { ScoringRule, compareResults, getScoringRule, getTiebreaker, rankPredictions } from './scoring';
+
+export interface LeaderboardEntry {
+	userId: string;
+	username: string;
+	matches: number;
+	average: number;
+	wins: number;
+	best: PredictionWithMatch;
+	bestResult: number;
+}
+
+// Build season standings from settled predictions, scoring each with the given rule.
+// A user is credited with a win for every match they won under that match's tiebreaker.
+export function buildLeaderboard(
+	userStats: { userId: string; username: string; predictions: PredictionWithMatch[] }[],
+	rule: ScoringRule
+): LeaderboardEntry[] {
+	const resultOf = (p: PredictionWithMatch) =>
+		rule.evaluate(
+			{ runs: p.runs, wickets: p.wickets },
+			{ runs: p.actualRuns, wickets: p.actualWickets }
+		);
+
+	// Winners per match, ranked the same way as /end
+	const byMatch: { [matchId: string]: PredictionWithMatch[] } = {};
+	for (const user of userStats) {
+		for (const pred of user.predictions) {
+			(byMatch[pred.matchId] ??= []).push(pred);
+		}
+	}
+	const winners = new Set<string>();
+	for (const [matchId, preds] of Object.entries(byMatch)) {
+		const actual = { runs: preds[0].actualRuns, wickets: preds[0].actualWickets };
+		for (const entry of rankPredictions(preds, actual, rule, getTiebreaker(preds[0].tiebreaker))) {
+			if (entry.rank === 1) winners.add(`${matchId}:${entry.prediction.userId}`);
+		}
+	}
+
+	const entries = userStats.map((user) => {
+		let total = 0;
+		let wins = 0;
+		let best = user.predictions[0];
+		let bestResult = resultOf(best);
+		for (const pred of user.predictions) {
+			const result = resultOf(pred);
+			total += result;
+			if (winners.has(`${pred.matchId}:${pred.userId}`)) wins++;
+			if (compareResults(rule, result, bestResult) < 0) {
+				bestResult = result;
+				best = pred;
+			}
+		}
+		return {
+			userId: user.userId,
+			username: user.username,
+			matches: user.predictions.length,
+			average: total / user.predictions.length,
+			wins,
+			best,
+			bestResult,
+		};
+	});
+
+	// Better average first, then more wins, more matches played, and finally name/ID
+	// so that equal records always come out in the same order.
+	entries.sort(
+		(a, b) =>
+			compareResults(rule, a.average, b.average) ||
+			b.wins - a.wins ||
+			b.matches - a.matches ||
+			a.username.localeCompare(b.username) ||
+			a.userId.localeCompare(b.userId)
+	);
+	return entries;
+}
+
+export interface RuleAverage {
+	rule: ScoringRule;
+	predictions: number;
+	average: number;
+}
+
+// One member's settled predictions averaged per scoring rule, since each match is scored
+// with its own rule and results under different rules don't add up
+export function averagesByRule(predictions: PredictionWithMatch[]): RuleAverage[] {
+	const byRule: { [ruleId: string]: number[] } = {};
+	for (const p of predictions) {
+		const rule = getScoringRule(p.scoringRule);
+		(byRule[rule.id] ??= []).push(
+			rule.evaluate(
+				{ runs: p.runs, wickets: p.wickets },
+				{ runs: p.actualRuns, wickets: p.actualWickets }
+			)
+		);
+	}
+	return Object.entries(byRule).map(([ruleId, results]) => ({
+		rule: getScoringRule(ruleId),
+		predictions: results.length,
+		average: results.reduce((sum, r) => sum + r, 0) / results.length,
+	}));
+}
+
+export interface CombinedEntry {
+	userId: string;
+	username: string;
+	// Result in each innings, in innings order
+	results: number[];
+	total: number;
+	// Competition ranking; equal totals share a rank
+	rank: number;
+}
+
+// Standings across every innings of a settled fixture: each member's innings results added
+// up. Only members who predicted all innings are included.
+export function buildCombinedStandings(
+	innings: { match: MatchRow; predictions: PredictionRow[] }[],
+	rule: ScoringRule
+): CombinedEntry[] {
+	const byUser = new Map<string, CombinedEntry>();
+	for (const { match, predictions } of innings) {
+		const actual = { runs: match.actualRuns ?? 0, wickets: match.actualWickets ?? 0 };
+		for (const p of predictions) {
+			const entry = byUser.get(p.userId) ?? {
+				userId: p.userId,
+				username: p.username,
+				results: [],
+				total: 0,
+				rank: 0,
+			};
+			const result = rule.evaluate({ runs: p.runs, wickets: p.wickets }, actual);
+			entry.results.push(result);
+			entry.total += result;
+			byUser.set(p.userId, entry);
+		}
+	}
+	const entries = [...byUser.values()]
+		.filter((entry) => entry.results.length === innings.length)
+		.sort(
+			(a, b) => compareResults(rule, a.total, b.total) || a.username.localeCompare(b.username)
+		);
+	entries.forEach((entry, idx) => {
+		entry.rank = idx > 0 && entries[idx - 1].total === entry.total ? entries[idx - 1].rank : idx + 1;
+	});
+	return entries;
+}
@@ -0,0 +1,33 @@
+import { MatchRow, MatchStatus } from './db';
+
+// Allowed status changes. Settled, cancelled and abandoned are final.
+const TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+	open: ['locked', 'settled', 'cancelled', 'abandoned'],
+	locked: ['open', 'settled', 'cancelled', 'abandoned'],
+	settled: [],
+	cancelled: [],
+	abandoned: [],
+};
+
+// Verb used in error messages for moving a match into each status
+const ACTIONS: Record<MatchStatus, string> = {
+	open: 'reopen',
+	locked: 'close',
+	settled: 'end',
+	cancelled: 'cancel',
+	abandoned: 'abandon',
+};
+
+export function canTransition(from: MatchStatus, to: MatchStatus): boolean {
+	return TRANSITIONS[from].includes(to);
+}
+
+// Helper: explain why a transition is not allowed, e.g. "Cannot reopen a match that is open."
+export function transitionError(from: MatchStatus, to: MatchStatus): string {
+	return `Cannot ${ACTIONS[to]} a match that is ${from}.`;
+}
+
+// A sealed match hides everyone's picks while predictions are still open
+export function isSealed(match: MatchRow): boolean {
+	return match.sealed === 1 && match.status === 'open';
+}
@@ -0,0 +1,253 @@
+import Database from 'better-sqlite3';
+
+// Ordered schema changes. Each step runs once, inside a transaction that also records its
+// version in schema_version, so a failed step leaves the database as it was. Append new
+// steps at the end and never edit or reorder released ones.
+//
+// Databases created before versioning started at the original bot's schema or somewhere
+// along these steps, so the early steps only create what is missing.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Helper: add a column unless the table already has it. Returns true if it was added.
+const addColumn = (db: Database.Database, table: string, column: string, definition: string): boolean => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some((c) => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Matches and predictions with comments',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS matches (
+          id TEXT PRIMARY KEY,
+          teamName TEXT NOT NULL,
+          toss TEXT NOT NULL,
+          venue TEXT NOT NULL,
+          matchDate TEXT NOT NULL,
+          isOpen INTEGER NOT NULL,
+          actualRuns INTEGER,
+          actualWickets INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS predictions (
+          matchId TEXT,
+          userId TEXT,
+          username TEXT,
+          runs INTEGER,
+          wickets INTEGER,
+          comment TEXT,
+          PRIMARY KEY (matchId, userId),
+          FOREIGN KEY (matchId) REFERENCES matches(id)
+        );
+      `);
+      // Databases created by the original bot have predictions without comments. That bot
+      // scored on runs alone, so its settled matches keep that rule instead of the weighted
+      // default step 4 gives older matches.
+      if (addColumn(db, 'predictions', 'comment', 'TEXT')) {
+        addColumn(db, 'matches', 'scoringRule', `TEXT NOT NULL DEFAULT 'weighted-wickets'`);
+        db.exec(`UPDATE matches SET scoringRule = 'runs-only' WHERE actualRuns IS NOT NULL`);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'Match status',
+    up: (db) => {
+      // Backfill statuses from the old isOpen/actualRuns flags
+      if (addColumn(db, 'matches', 'status', `TEXT NOT NULL DEFAULT 'open'`)) {
+        db.exec(`
+          UPDATE matches SET status = CASE
+            WHEN actualRuns IS NOT NULL THEN 'settled'
+            WHEN isOpen = 1 THEN 'open'
+            ELSE 'locked'
+          END;
+        `);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'Scheduled start times',
+    up: (db) => {
+      addColumn(db, 'matches', 'startsAt', 'INTEGER');
+      addColumn(db, 'matches', 'autoLock', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'matches', 'channelId', 'TEXT');
+    },
+  },
+  {
+    version: 4,
+    name: 'Scoring rules, tiebreakers and settings',
+    up: (db) => {
+      // Matches the v1 bot settled before scoring rules existed were scored with weighted
+      // wickets (the original bot's are tagged in step 1)
+      addColumn(db, 'matches', 'scoringRule', `TEXT NOT NULL DEFAULT 'weighted-wickets'`);
+      addColumn(db, 'matches', 'tiebreaker', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'Prediction timestamps and history',
+    up: (db) => {
+      addColumn(db, 'predictions', 'submittedAt', 'INTEGER');
+      addColumn(db, 'predictions', 'updatedAt', 'INTEGER');
+      addColumn(db, 'predictions', 'editCount', 'INTEGER NOT NULL DEFAULT 0');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS prediction_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          matchId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          username TEXT NOT NULL,
+          runs INTEGER NOT NULL,
+          wickets INTEGER NOT NULL,
+          comment TEXT,
+          createdAt INTEGER NOT NULL,
+          FOREIGN KEY (matchId) REFERENCES matches(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'Sealed and unique-score matches',
+    up: (db) => {
+      addColumn(db, 'matches', 'sealed', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'matches', 'uniqueScores', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 7,
+    name: 'Extra questions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS questions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          matchId TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          choices TEXT,
+          points INTEGER NOT NULL,
+          answer TEXT,
+          FOREIGN KEY (matchId) REFERENCES matches(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS answers (
+          questionId INTEGER,
+          userId TEXT,
+          username TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (questionId, userId),
+          FOREIGN KEY (questionId) REFERENCES questions(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'Two-innings fixtures and match formats',
+    up: (db) => {
+      addColumn(db, 'matches', 'opponent', 'TEXT');
+      addColumn(db, 'matches', 'fixtureId', 'TEXT');
+      addColumn(db, 'matches', 'innings', 'INTEGER');
+      addColumn(db, 'matches', 'format', `TEXT NOT NULL DEFAULT 't20'`);
+    },
+  },
+  {
+    version: 9,
+    name: 'Guilds',
+    up: (db) => {
+      // Matches from before multi-guild support are left without a guild until claimLegacyData
+      addColumn(db, 'matches', 'guildId', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS guild_settings (
+          guildId TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (guildId, key)
+        );
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS admin_grants (
+          guildId TEXT,
+          targetType TEXT NOT NULL,
+          targetId TEXT NOT NULL,
+          capability TEXT NOT NULL,
+          PRIMARY KEY (guildId, targetType, targetId, capability)
+        );
+      `);
+    },
+  },
+];
+
+// Helper: the highest migration applied to the database, 0 for a new or pre-versioning one
+const currentVersion = (db: Database.Database): number => {
+  const row = db.prepare(`SELECT MAX(version) AS version FROM schema_version`).get() as {
+    version: number | null;
+  };
+  return row.version ?? 0;
+};
+
+// Bring the database up to the latest version. Before each migration, a database that
+// already holds tables is copied next to the original (e.g. cricket.db.v3-1711111111111.bak
+// before migration 4) so a bad upgrade can be rolled back by hand to the step before it.
+// Returns the versions that were applied.
+export function runMigrations(
+  db: Database.Database,
+  dbPath: string,
+  migrations: Migration[] = MIGRATIONS
+): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt INTEGER NOT NULL
+    );
+  `);
+  const from = currentVersion(db);
+  const pending = migrations.filter((m) => m.version > from).sort((a, b) => a.version - b.version);
+  if (!pending.length) return [];
+
+  const { tables } = db
+    .prepare(`SELECT COUNT(*) AS tables FROM sqlite_master WHERE type = 'table' AND name != 'schema_version'`)
+    .get() as { tables: number };
+  const isNew = tables === 0;
+
+  const record = db.prepare(`INSERT INTO schema_version (version, name, appliedAt) VALUES (?, ?, ?)`);
+  let version = from;
+  for (const migration of pending) {
+    if (!isNew && dbPath !== ':memory:') {
+      const backupPath = `${dbPath}.v${version}-${Date.now()}.bak`;
+      db.prepare(`VACUUM INTO ?`).run(backupPath);
+      console.log(`Backed up the database to ${backupPath} before migration ${migration.version}.`);
+    }
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, Date.now());
+      })();
+    } catch (error) {
+      throw new Error(
+        `Database migration ${migration.version} (${migration.name}) failed and was rolled back: ${error}`
+      );
+    }
+    if (!isNew) console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+    version = migration.version;
+  }
+  if (isNew && dbPath !== ':memory:') {
+    console.log(`Created the database at schema version ${pending[pending.length - 1].version}.`);
+  }
+  return pending.map((m) => m.version);
+}
@@ -0,0 +1,127 @@
+import {
+	ActionRowBuilder,
+	ButtonBuilder,
+	ButtonStyle,
+	ChatInputCommandInteraction,
+	ComponentType,
+	EmbedBuilder,
+	SendableChannels,
+} from 'discord.js';
+
+const EMBED_COLOR = 0x1e88e5;
+const LINES_PER_PAGE = 15;
+// Embed descriptions are capped at 4096 characters; leave room for the header
+const MAX_PAGE_LENGTH = 3500;
+// How long the Previous/Next buttons keep working
+const BUTTON_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface PageOptions {
+	title: string;
+	// Shown above the lines on every page
+	header?: string;
+	lines: string[];
+	// Shown instead of the lines when there are none
+	emptyText: string;
+}
+
+// Split lines into embeds of at most LINES_PER_PAGE lines, each numbered "Page x/y"
+export function buildPages({ title, header, lines, emptyText }: PageOptions): EmbedBuilder[] {
+	const chunks: string[][] = [];
+	let current: string[] = [];
+	let length = 0;
+	for (const line of lines) {
+		if (current.length && (current.length >= LINES_PER_PAGE || length + line.length > MAX_PAGE_LENGTH)) {
+			chunks.push(current);
+			current = [];
+			length = 0;
+		}
+		current.push(line.slice(0, MAX_PAGE_LENGTH));
+		length += line.length + 1;
+	}
+	if (current.length || !chunks.length) chunks.push(current);
+
+	return chunks.map((chunk, idx) => {
+		const body = chunk.length ? chunk.join('\n') : emptyText;
+		const embed = new EmbedBuilder()
+			.setColor(EMBED_COLOR)
+			.setTitle(title)
+			.setDescription(header ? `${header}\n\n${body}` : body);
+		if (chunks.length > 1) embed.setFooter({ text: `Page ${idx + 1}/${chunks.length}` });
+		return embed;
+	});
+}
+
+// Helper: Previous/Next buttons for the given page
+function pageButtons(page: number, total: number): ActionRowBuilder<ButtonBuilder> {
+	return new ActionRowBuilder<ButtonBuilder>().addComponents(
+		new ButtonBuilder()
+			.setCustomId('page:prev')
+			.setLabel('Previous')
+			.setStyle(ButtonStyle.Secondary)
+			.setDisabled(page === 0),
+		new ButtonBuilder()
+			.setCustomId('page:next')
+			.setLabel('Next')
+			.setStyle(ButtonStyle.Secondary)
+			.setDisabled(page === total - 1)
+	);
+}
+
+// Send the pages as a reply (or follow-up), with buttons that only the command's user can flip.
+// The buttons are removed once they time out.
+export async function sendPaginated(
+	interaction: ChatInputCommandInteraction,
+	pages: EmbedBuilder[],
+	{ ephemeral = false, followUp = false }: { ephemeral?: boolean; followUp?: boolean } = {}
+): Promise<void> {
+	const payload = {
+		embeds: [pages[0]],
+		components: pages.length > 1 ? [pageButtons(0, pages.length)] : [],
+		ephemeral,
+	};
+	const message = followUp
+		? await interaction.followUp(payload)
+		: await interaction.reply({ ...payload, fetchReply: true });
+	if (pages.length < 2) return;
+
+	let page = 0;
+	const collector = message.createMessageComponentCollector({
+		componentType: ComponentType.Button,
+		time: BUTTON_TIMEOUT_MS,
+	});
+	collector.on('collect', async (button) => {
+		// The collector doesn't catch rejections, so a failed acknowledgement is logged here
+		try {
+			if (button.user.id !== interaction.user.id) {
+				await button.reply({
+					content: 'Only the person who ran the command can change pages.',
+					ephemeral: true,
+				});
+				return;
+			}
+			page = button.customId === 'page:next' ? Math.min(page + 1, pages.length - 1) : Math.max(page - 1, 0);
+			await button.update({ embeds: [pages[page]], components: [pageButtons(page, pages.length)] });
+		} catch (error) {
+			console.error('Could not change page:', error);
+		}
+	});
+	collector.on('end', async () => {
+		try {
+			// Edit through the interaction webhook, which also works for ephemeral messages
+			await interaction.webhook.editMessage(message.id, { components: [] });
+		} catch (error) {
+			console.error('Could not remove page buttons:', error);
+		}
+	});
+}
+
+// Post pages to a channel outside of an interaction (e.g. scheduled announcements).
+// Without an interaction there are no buttons, so each page is its own message.
+export async function sendPagesToChannel(
+	channel: SendableChannels,
+	pages: EmbedBuilder[]
+): Promise<void> {
+	for (const page of pages) {
+		await channel.send({ embeds: [page] });
+	}
+}
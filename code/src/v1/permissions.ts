@@ -0,0 +1,77 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { getAdminGrants } from './db';
+
+// What an admin grant allows. A grant of 'all' covers every capability.
+export type Capability = 'setup' | 'settle' | 'cancel' | 'export';
+
+export const CAPABILITIES: { id: Capability; name: string; description: string }[] = [
+	{ id: 'setup', name: 'Setup', description: 'set up, edit, close and reopen matches, add questions, change season scoring' },
+	{ id: 'settle', name: 'Settle', description: 'end matches and settle questions' },
+	{ id: 'cancel', name: 'Cancel', description: 'cancel and abandon matches' },
+	{ id: 'export', name: 'Export', description: 'export and import data' },
+];
+
+export const ALL_CAPABILITIES = 'all';
+
+// Users in the ADMINS env var (comma-separated) keep full rights, so a new server can hand
+// out its first grants. Read on use, since the env is loaded after modules are imported.
+export function getEnvAdminIds(): string[] {
+	return process.env.ADMINS?.split(',').map((id) => id.trim()).filter(Boolean) ?? [];
+}
+
+// Who is running a command, as far as admin rights are concerned
+export interface PermissionSubject {
+	userId: string;
+	guildId: string | null;
+	roleIds: string[];
+	// Administrator or Manage Server permission in the guild
+	managesGuild: boolean;
+}
+
+// Helper: the permission subject of a Discord interaction (no roles outside a guild)
+export function permissionSubject(interaction: ChatInputCommandInteraction): PermissionSubject {
+	const member = interaction.member;
+	const permissions = interaction.memberPermissions;
+	return {
+		userId: interaction.user.id,
+		guildId: interaction.guildId,
+		roleIds: !member ? [] : Array.isArray(member.roles) ? member.roles : [...member.roles.cache.keys()],
+		managesGuild:
+			permissions !== null &&
+			(permissions.has(PermissionFlagsBits.Administrator) ||
+				permissions.has(PermissionFlagsBits.ManageGuild)),
+	};
+}
+
+// Full rights come from the ADMINS env var or from the Administrator / Manage Server
+// permissions in the guild. Only these users can manage grants with /admin.
+export function hasFullRights(subject: PermissionSubject): boolean {
+	return getEnvAdminIds().includes(subject.userId) || subject.managesGuild;
+}
+
+// Grants in this guild that apply to the user directly or through one of their roles
+function grantsFor(subject: PermissionSubject): string[] {
+	if (!subject.guildId) return [];
+	return getAdminGrants(subject.guildId)
+		.filter((grant) =>
+			grant.targetType === 'user'
+				? grant.targetId === subject.userId
+				: subject.roleIds.includes(grant.targetId)
+		)
+		.map((grant) => grant.capability);
+}
+
+export function hasCapability(subject: PermissionSubject, capability: Capability): boolean {
+	if (hasFullRights(subject)) return true;
+	const grants = grantsFor(subject);
+	return grants.includes(capability) || grants.includes(ALL_CAPABILITIES);
+}
+
+// Any admin capability at all, for admin-only views such as audit trails
+export function isAnyAdmin(subject: PermissionSubject): boolean {
+	return hasFullRights(subject) || grantsFor(subject).length > 0;
+}
+
+export function capabilityName(id: string): string {
+	return CAPABILITIES.find((c) => c.id === id)?.name ?? 'All';
+}
@@ -0,0 +1,148 @@
+import { AnswerRow, QuestionRow } from './db';
+import { parseScore } from './scoring';
+
+// Answer types: pick one of a list (or free text when there is no list), a whole number,
+// or a runs/wickets score
+export type QuestionKind = 'choice' | 'number' | 'score';
+
+export const QUESTION_KINDS: { id: QuestionKind; name: string }[] = [
+	{ id: 'choice', name: 'Choice' },
+	{ id: 'number', name: 'Number' },
+	{ id: 'score', name: 'Score (runs/wickets)' },
+];
+
+export const DEFAULT_QUESTION_POINTS = 10;
+
+interface QuestionPreset {
+	key: string;
+	name: string;
+	prompt: string;
+	kind: QuestionKind;
+	// Allowed answers given the match's teams, null for free text
+	choices: (teamName: string, opponent: string | null) => string[] | null;
+}
+
+// Common questions admins can attach at /setup without typing them out
+export const QUESTION_PRESETS: QuestionPreset[] = [
+	{
+		key: 'winner',
+		name: 'Match winner',
+		prompt: 'Who will win the match?',
+		kind: 'choice',
+		choices: (teamName, opponent) => [teamName, opponent ?? 'Opposition', 'No result'],
+	},
+	{
+		key: 'toss',
+		name: 'Toss winner',
+		prompt: 'Who will win the toss?',
+		kind: 'choice',
+		choices: (teamName, opponent) => [teamName, opponent ?? 'Opposition'],
+	},
+	{
+		key: 'top-scorer',
+		name: 'Top run-scorer',
+		prompt: 'Who will be the top run-scorer?',
+		kind: 'choice',
+		choices: () => null,
+	},
+	{
+		key: 'powerplay',
+		name: 'Powerplay score',
+		prompt: 'What will the powerplay score be?',
+		kind: 'score',
+		choices: () => null,
+	},
+	{
+		key: 'chase',
+		name: 'Chase result',
+		prompt: 'How will the second-innings chase end?',
+		kind: 'choice',
+		choices: () => ['Target chased', 'Fell short', 'Tie'],
+	},
+];
+
+// Helper: parse a comma-separated list of preset keys, returning unknown keys separately
+export function parsePresetKeys(input: string): { presets: QuestionPreset[]; unknown: string[] } {
+	const keys = input
+		.split(',')
+		.map((key) => key.trim().toLowerCase())
+		.filter(Boolean);
+	return {
+		presets: QUESTION_PRESETS.filter((preset) => keys.includes(preset.key)),
+		unknown: keys.filter((key) => !QUESTION_PRESETS.some((preset) => preset.key === key)),
+	};
+}
+
+export function getChoices(question: QuestionRow): string[] | null {
+	return question.choices ? (JSON.parse(question.choices) as string[]) : null;
+}
+
+// Validate an answer (or a correct answer when settling) and normalise it for storage.
+// Returns an error message when the value doesn't fit the question.
+export function normaliseAnswer(
+	question: QuestionRow,
+	value: string
+): { value: string } | { error: string } {
+	const trimmed = value.trim();
+	if (question.kind === 'number') {
+		if (!/^\d+$/.test(trimmed)) return { error: 'This question needs a whole number.' };
+		return { value: String(parseInt(trimmed, 10)) };
+	}
+	if (question.kind === 'score') {
+		const parsed = parseScore(trimmed);
+		if ('error' in parsed) return parsed;
+		// A bare number is read as all out, which is rarely meant for a part of an innings
+		if (parsed.allOutAssumed) return { error: 'Add the wickets too (e.g., 55/1).' };
+		return { value: `${parsed.score.runs}/${parsed.score.wickets}` };
+	}
+	const choices = getChoices(question);
+	if (!choices) {
+		if (!trimmed) return { error: 'Please give an answer.' };
+		return { value: trimmed };
+	}
+	const choice = choices.find((c) => c.toLowerCase() === trimmed.toLowerCase());
+	if (!choice) return { error: `Pick one of: ${choices.join(', ')}` };
+	return { value: choice };
+}
+
+// Points for one answer against the settled answer. Choices score all or nothing;
+// numbers get half points within 10% of the answer; scores lose a tenth of the points
+// per 5 runs or wicket off.
+export function scoreAnswer(question: QuestionRow, value: string): number {
+	if (question.answer === null) return 0;
+	if (question.kind === 'number') {
+		const answer = Number(question.answer);
+		const diff = Math.abs(Number(value) - answer);
+		if (diff === 0) return question.points;
+		return diff <= Math.max(1, answer * 0.1) ? Math.floor(question.points / 2) : 0;
+	}
+	if (question.kind === 'score') {
+		const parsedPred = parseScore(value);
+		const parsedActual = parseScore(question.answer);
+		if ('error' in parsedPred || 'error' in parsedActual) return 0;
+		const pred = parsedPred.score;
+		const actual = parsedActual.score;
+		const off = Math.abs(pred.runs - actual.runs) / 5 + Math.abs(pred.wickets - actual.wickets);
+		return Math.max(0, Math.round(question.points * (1 - off / 10)));
+	}
+	return value.toLowerCase() === question.answer.toLowerCase() ? question.points : 0;
+}
+
+// Scorers named in a question result; the rest are counted, so big servers stay within
+// Discord's message limits
+const MAX_SCORERS_SHOWN = 10;
+
+// Helper: one line per question with its answer and who scored, for /end and /details
+export function formatQuestionResult(question: QuestionRow, answers: AnswerRow[]): string {
+	if (question.answer === null) {
+		return `**${question.prompt}** - not settled yet (${answers.length} answer(s))`;
+	}
+	const scorers = answers
+		.map((a) => ({ username: a.username, points: scoreAnswer(question, a.value) }))
+		.filter((s) => s.points > 0)
+		.sort((a, b) => b.points - a.points || a.username.localeCompare(b.username));
+	if (!scorers.length) return `**${question.prompt}** - ${question.answer}: nobody scored`;
+	const named = scorers.slice(0, MAX_SCORERS_SHOWN).map((s) => `${s.username} (+${s.points})`);
+	const more = scorers.length - named.length;
+	return `**${question.prompt}** - ${question.answer}: ${named.join(', ')}${more ? ` and ${more} more` : ''}`;
+}
@@ -0,0 +1,35 @@
+// Offline HTML season report, e.g. for hosting the standings outside Discord:
+//   node dist/v1/report-cli.js --guild <guild id> [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--title <title>] [--out report.html]
+import './env';
+import fs from 'fs';
+import { buildReport } from './report';
+import { isIsoDate } from './scheduler';
+
+const args = process.argv.slice(2);
+// Helper: the value following a flag, if the flag was given
+const flag = (name: string): string | undefined => {
+	const idx = args.indexOf(name);
+	return idx >= 0 ? args[idx + 1] : undefined;
+};
+const guildId = flag('--guild');
+const fromDate = flag('--from');
+const toDate = flag('--to');
+const out = flag('--out') ?? 'season-report.html';
+if (!guildId) {
+	console.error(
+		'Usage: node dist/v1/report-cli.js --guild <guild id> [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--title <title>] [--out report.html]'
+	);
+	process.exit(1);
+}
+if ((fromDate && !isIsoDate(fromDate)) || (toDate && !isIsoDate(toDate))) {
+	console.error('Invalid date. Use YYYY-MM-DD (e.g., 2025-03-22).');
+	process.exit(1);
+}
+
+const report = buildReport({ guildId, fromDate, toDate }, flag('--title'));
+if (!report) {
+	console.error('No settled matches found for those filters.');
+	process.exit(1);
+}
+fs.writeFileSync(out, report.content);
+console.log(`Wrote ${out}.`);
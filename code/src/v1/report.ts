@@ -0,0 +1,231 @@
+import { getAllUserStats, getMatches, getPredictionsForMatch, MatchRow, PredictionWithMatch } from './db';
+import { ExportFile } from './export';
+import { formatMatchDate, formatMatchTitle, formatScore, formatToss } from './format';
+import { buildLeaderboard } from './leaderboard';
+import { formatTimestamp } from './scheduler';
+import {
+	ScoringRule,
+	formatResult,
+	getMatchFormat,
+	getScoringRule,
+	getTiebreaker,
+	rankPredictions,
+} from './scoring';
+import { getGuildTimeZone, getSeasonScoringRule } from './settings';
+
+// Static HTML season report: the leaderboard, a chart of each player's results and every
+// settled or abandoned match with all its predictions. The page has no external assets, so
+// it can be attached to Discord or hosted anywhere as a single file.
+
+export interface ReportFilters {
+	guildId: string;
+	fromDate?: string;
+	toDate?: string;
+}
+
+// Helper: escape text for HTML content and attribute values
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// Helper: an HTML table; cells are escaped by the caller
+function table(headings: string[], rows: string[][]): string {
+	const head = headings.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+	const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('\n');
+	return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+const CHART = { width: 640, height: 160, left: 44, right: 8, top: 10, bottom: 10 };
+
+// Inline SVG bar chart of one player's result in each match, oldest first, with a dashed
+// line at their average. Every chart uses the same scale so players can be compared.
+function accuracyChart(
+	points: { label: string; value: number }[],
+	average: number,
+	scale: { min: number; max: number },
+	rule: ScoringRule
+): string {
+	const innerWidth = CHART.width - CHART.left - CHART.right;
+	const innerHeight = CHART.height - CHART.top - CHART.bottom;
+	const y = (value: number) =>
+		CHART.top + ((scale.max - value) / (scale.max - scale.min)) * innerHeight;
+	const slot = innerWidth / points.length;
+	const barWidth = Math.max(1, slot * 0.7);
+	const bars = points.map((point, idx) => {
+		const top = Math.min(y(point.value), y(0));
+		const height = Math.max(1, Math.abs(y(point.value) - y(0)));
+		const x = CHART.left + idx * slot + (slot - barWidth) / 2;
+		return `<rect class="bar" x="${x.toFixed(1)}" y="${top.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${height.toFixed(1)}"><title>${escapeHtml(`${point.label}: ${formatResult(rule, point.value)}`)}</title></rect>`;
+	});
+	const ticks = [...new Set([scale.max, 0, scale.min])].map(
+		(value) =>
+			`<text class="tick" x="${CHART.left - 6}" y="${(y(value) + 4).toFixed(1)}">${value}</text>`
+	);
+	const right = CHART.width - CHART.right;
+	return [
+		`<svg viewBox="0 0 ${CHART.width} ${CHART.height}" role="img" aria-label="${escapeHtml(`${rule.lowerIsBetter ? 'Error' : 'Points'} per match`)}">`,
+		...ticks,
+		`<line class="axis" x1="${CHART.left}" y1="${y(0).toFixed(1)}" x2="${right}" y2="${y(0).toFixed(1)}"/>`,
+		...bars,
+		`<line class="average" x1="${CHART.left}" y1="${y(average).toFixed(1)}" x2="${right}" y2="${y(average).toFixed(1)}"><title>${escapeHtml(`Average: ${formatResult(rule, average)}`)}</title></line>`,
+		'</svg>',
+	].join('\n');
+}
+
+// Helper: one match with every prediction, ranked by the match's own rule once settled
+function matchSection(match: MatchRow, timeZone: string | undefined): string {
+	const predictions = getPredictionsForMatch(match.id);
+	const rule = getScoringRule(match.scoringRule);
+	const details = [
+		formatMatchDate(match, timeZone),
+		match.venue,
+		`Toss: ${formatToss(match)}`,
+		getMatchFormat(match.format).name,
+		`Scoring: ${rule.name}`,
+	];
+	let result: string;
+	let rows: string[][];
+	if (match.status === 'settled' && match.actualRuns !== null) {
+		const actual = { runs: match.actualRuns, wickets: match.actualWickets ?? 0 };
+		result = `Actual score: ${formatScore(actual.runs, actual.wickets)}`;
+		rows = rankPredictions(predictions, actual, rule, getTiebreaker(match.tiebreaker)).map((entry) => [
+			String(entry.rank),
+			escapeHtml(entry.prediction.username),
+			formatScore(entry.prediction.runs, entry.prediction.wickets),
+			escapeHtml(formatResult(rule, entry.result)),
+			escapeHtml(entry.prediction.comment ?? ''),
+		]);
+	} else {
+		result = 'Abandoned - no result';
+		rows = [...predictions]
+			.sort((a, b) => a.username.localeCompare(b.username))
+			.map((p) => [
+				'',
+				escapeHtml(p.username),
+				formatScore(p.runs, p.wickets),
+				'',
+				escapeHtml(p.comment ?? ''),
+			]);
+	}
+	return [
+		`<section class="match" id="match-${escapeHtml(match.id)}">`,
+		`<h3>${escapeHtml(formatMatchTitle(match))}</h3>`,
+		`<p class="meta">${details.map(escapeHtml).join(' &middot; ')}</p>`,
+		`<p class="result">${escapeHtml(result)}</p>`,
+		rows.length
+			? table(['#', 'Player', 'Prediction', 'Result', 'Comment'], rows)
+			: '<p class="empty">No predictions.</p>',
+		'</section>',
+	].join('\n');
+}
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 60rem; padding: 0 1rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+.meta, .note, .empty { color: #59636e; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1.5rem; }
+th, td { border-bottom: 1px solid #d1d9e0; padding: 0.3rem 0.5rem; text-align: left; }
+th { background: #f6f8fa; }
+.chart h3, .match h3 { margin-bottom: 0.25rem; }
+svg { width: 100%; height: auto; }
+.bar { fill: #2f81f7; }
+.axis { stroke: #59636e; }
+.average { stroke: #cf222e; stroke-dasharray: 6 4; }
+.tick { font-size: 11px; fill: #59636e; text-anchor: end; }
+`;
+
+// Render the report for a guild's matches within the filters, or null when none are
+// settled or abandoned. The leaderboard and charts use the season's scoring rule.
+export function buildReport(filters: ReportFilters, title = 'Season report'): ExportFile | null {
+	const timeZone = getGuildTimeZone(filters.guildId);
+	const matches = getMatches(filters).filter((m) => m.status === 'settled' || m.status === 'abandoned');
+	if (!matches.length) return null;
+	const rule = getSeasonScoringRule(filters.guildId);
+	const userStats = getAllUserStats({ ...filters, scoringRule: rule.id });
+	const leaderboard = buildLeaderboard(userStats, rule);
+
+	// Results per player in match order, for the charts
+	const order = new Map(matches.map((m, idx) => [m.id, idx]));
+	const resultOf = (p: PredictionWithMatch) =>
+		rule.evaluate({ runs: p.runs, wickets: p.wickets }, { runs: p.actualRuns, wickets: p.actualWickets });
+	const predictionsOf = new Map(userStats.map((user) => [user.userId, user.predictions]));
+	const allResults = userStats.flatMap((user) => user.predictions.map(resultOf));
+	const scale = { min: Math.min(0, ...allResults), max: Math.max(0, ...allResults) };
+	if (scale.min === scale.max) scale.max = 1;
+	const byId = new Map(matches.map((m) => [m.id, m]));
+	const charts = leaderboard.map((entry) => {
+		const points = [...(predictionsOf.get(entry.userId) ?? [])]
+			.sort((a, b) => (order.get(a.matchId) ?? 0) - (order.get(b.matchId) ?? 0))
+			.map((p) => {
+				const match = byId.get(p.matchId);
+				return {
+					label: match ? `${formatMatchTitle(match)}, ${match.matchDate}` : p.matchId,
+					value: resultOf(p),
+				};
+			});
+		return [
+			'<section class="chart">',
+			`<h3>${escapeHtml(entry.username)}</h3>`,
+			accuracyChart(points, entry.average, scale, rule),
+			'</section>',
+		].join('\n');
+	});
+
+	const period = [
+		filters.fromDate ? `from ${filters.fromDate}` : '',
+		filters.toDate ? `to ${filters.toDate}` : '',
+	]
+		.filter(Boolean)
+		.join(' ');
+	const summary = [
+		`${matches.length} match${matches.length === 1 ? '' : 'es'}${period ? ` ${period}` : ''}`,
+		`Generated ${formatTimestamp(Date.now(), timeZone)}`,
+	];
+	const rankingNote = `Ranked by ${rule.name} (${rule.lowerIsBetter ? 'lower' : 'higher'} is better). Matches scored with another rule are listed below but not ranked.`;
+
+	const html = [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		'<meta name="viewport" content="width=device-width, initial-scale=1">',
+		`<title>${escapeHtml(title)}</title>`,
+		`<style>${STYLE}</style>`,
+		'</head>',
+		'<body>',
+		`<h1>${escapeHtml(title)}</h1>`,
+		`<p class="meta">${summary.map(escapeHtml).join(' &middot; ')}</p>`,
+		'<h2>Leaderboard</h2>',
+		`<p class="note">${escapeHtml(rankingNote)}</p>`,
+		leaderboard.length
+			? table(
+					['#', 'Player', 'Average', 'Played', 'Won', 'Best'],
+					leaderboard.map((entry, idx) => [
+						String(idx + 1),
+						escapeHtml(entry.username),
+						escapeHtml(formatResult(rule, entry.average)),
+						String(entry.matches),
+						String(entry.wins),
+						`${formatScore(entry.best.runs, entry.best.wickets)} (${escapeHtml(formatResult(rule, entry.bestResult))})`,
+					])
+				)
+			: '<p class="empty">No settled predictions.</p>',
+		...(charts.length
+			? [
+					'<h2>Accuracy per match</h2>',
+					`<p class="note">${escapeHtml(`${rule.lowerIsBetter ? 'Error' : 'Points'} in each match, oldest first. The dashed line is the player's average.`)}</p>`,
+					...charts,
+				]
+			: []),
+		'<h2>Matches</h2>',
+		...matches.map((m) => matchSection(m, timeZone)),
+		'</body>',
+		'</html>',
+	].join('\n');
+	return { name: 'season-report.html', content: `${html}\n` };
+}
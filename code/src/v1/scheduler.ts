@@ -0,0 +1,151 @@
+// setTimeout cannot wait longer than ~24.8 days; longer delays are chained.
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+// What happens when a scheduled lock fires; set once by the bot at startup
+let lockHandler: (matchId: string) => Promise<void> = async () => {};
+
+export function setLockHandler(handler: (matchId: string) => Promise<void>): void {
+	lockHandler = handler;
+}
+
+// Check an IANA time zone name such as "Asia/Kolkata" or "Europe/London"
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-GB', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Helper: wall-clock parts of a timestamp, in a time zone or the bot's local one
+function wallClock(
+	timestamp: number,
+	timeZone?: string
+): { year: number; month: number; day: number; hours: number; minutes: number } {
+	if (!timeZone) {
+		const date = new Date(timestamp);
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth() + 1,
+			day: date.getDate(),
+			hours: date.getHours(),
+			minutes: date.getMinutes(),
+		};
+	}
+	const parts = new Intl.DateTimeFormat('en-GB', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+	}).formatToParts(timestamp);
+	const part = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find((p) => p.type === type)!.value);
+	return {
+		year: part('year'),
+		month: part('month'),
+		day: part('day'),
+		hours: part('hour'),
+		minutes: part('minute'),
+	};
+}
+
+// Helper: timestamp of a wall-clock time in a time zone. The zone's offset is read at the
+// UTC reading of that time and corrected once, which settles it across DST changes.
+function fromWallClock(
+	year: number,
+	month: number,
+	day: number,
+	hours: number,
+	minutes: number,
+	timeZone?: string
+): number {
+	if (!timeZone) return new Date(year, month - 1, day, hours, minutes).getTime();
+	const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+	const offsetAt = (timestamp: number) => {
+		const w = wallClock(timestamp, timeZone);
+		return Date.UTC(w.year, w.month - 1, w.day, w.hours, w.minutes) - timestamp;
+	};
+	const guess = asUtc - offsetAt(asUtc);
+	return asUtc - offsetAt(guess);
+}
+
+// Helper: check a YYYY-MM-DD date string
+export function isIsoDate(dateStr: string): boolean {
+	return /^\d{4}-\d{2}-\d{2}$/.test(dateStr) && !isNaN(Date.parse(dateStr));
+}
+
+// Helper: parse "YYYY-MM-DD HH:mm" (or just "YYYY-MM-DD") in the guild's time zone, or the
+// bot's local time zone (the TZ env var) when it has none. Without a time there is nothing
+// to lock on, so startsAt is null.
+export function parseStartTime(
+	startStr: string,
+	timeZone?: string
+): { matchDate: string; startsAt: number | null } | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?$/.exec(startStr.trim());
+	if (!match) return null;
+	const [, year, month, day, hours, minutes] = match;
+	const startsAt = fromWallClock(
+		Number(year),
+		Number(month),
+		Number(day),
+		Number(hours ?? 0),
+		Number(minutes ?? 0),
+		timeZone
+	);
+	// Reject dates that rolled over, e.g. 2025-02-30 or 25:00
+	const check = wallClock(startsAt, timeZone);
+	if (
+		check.year !== Number(year) ||
+		check.month !== Number(month) ||
+		check.day !== Number(day) ||
+		check.hours !== Number(hours ?? 0)
+	) {
+		return null;
+	}
+	return {
+		matchDate: `${year}-${month}-${day}`,
+		startsAt: hours !== undefined ? startsAt : null,
+	};
+}
+
+// Helper: format a timestamp as "YYYY-MM-DD HH:mm" in a time zone, or the bot's local one
+export function formatTimestamp(timestamp: number, timeZone?: string): string {
+	const { year, month, day, hours, minutes } = wallClock(timestamp, timeZone);
+	const pad = (n: number) => n.toString().padStart(2, '0');
+	return `${year}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}`;
+}
+
+// Run the lock handler for a match at the given time, replacing any lock already scheduled
+// for it. Times in the past fire immediately, which covers locks missed while the bot was down.
+export function scheduleLock(matchId: string, startsAt: number): void {
+	cancelLock(matchId);
+	const delay = Math.max(startsAt - Date.now(), 0);
+	const timer = setTimeout(
+		() => {
+			timers.delete(matchId);
+			if (delay > MAX_TIMEOUT) {
+				scheduleLock(matchId, startsAt);
+				return;
+			}
+			lockHandler(matchId).catch((error) =>
+				console.error(`Scheduled lock for match ${matchId} failed:`, error)
+			);
+		},
+		Math.min(delay, MAX_TIMEOUT)
+	);
+	timers.set(matchId, timer);
+}
+
+export function cancelLock(matchId: string): void {
+	const timer = timers.get(matchId);
+	if (timer) {
+		clearTimeout(timer);
+		timers.delete(matchId);
+	}
+}
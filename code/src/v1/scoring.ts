@@ -0,0 +1,217 @@
+// Score interface
+export interface Score {
+	runs: number;
+	wickets: number;
+}
+
+export type MatchFormat = 't20' | 'odi' | 'test' | 'hundred';
+
+// Highest innings total accepted per format, comfortably above the records
+export const MATCH_FORMATS: { id: MatchFormat; name: string; maxRuns: number }[] = [
+	{ id: 't20', name: 'T20', maxRuns: 400 },
+	{ id: 'odi', name: 'ODI', maxRuns: 600 },
+	{ id: 'test', name: 'Test', maxRuns: 1000 },
+	{ id: 'hundred', name: 'The Hundred', maxRuns: 300 },
+];
+
+export const DEFAULT_MATCH_FORMAT: MatchFormat = 't20';
+
+export function getMatchFormat(id: string | null | undefined): (typeof MATCH_FORMATS)[number] {
+	return MATCH_FORMATS.find((f) => f.id === id) ?? MATCH_FORMATS[0];
+}
+
+export type ParsedScore = { score: Score; allOutAssumed: boolean } | { error: string };
+
+// Helper: parse scores written as "200/4", "200-4", "200 for 4", "180 all out" or just "180"
+// (read as all out, flagged so the caller can say so). Runs are checked against the
+// match format and wickets must be 0-10; problems come back as a message for the user.
+export function parseScore(scoreStr: string, format: string = DEFAULT_MATCH_FORMAT): ParsedScore {
+	const text = scoreStr.trim().toLowerCase().replace(/\s+/g, ' ');
+	let runs: number;
+	let wickets: number;
+	let allOutAssumed = false;
+	let match: RegExpMatchArray | null;
+	if ((match = text.match(/^(-?\d+) ?(?:\/|-|for) ?(-?\d+)$/))) {
+		runs = parseInt(match[1], 10);
+		wickets = parseInt(match[2], 10);
+	} else if ((match = text.match(/^(-?\d+) ?(?:all out|ao)$/))) {
+		runs = parseInt(match[1], 10);
+		wickets = 10;
+	} else if ((match = text.match(/^(-?\d+)$/))) {
+		runs = parseInt(match[1], 10);
+		wickets = 10;
+		allOutAssumed = true;
+	} else {
+		return {
+			error: `Couldn't read "${scoreStr}" as a score. Use runs/wickets (e.g., 200/4), 200-4, 200 for 4 or 180 all out.`,
+		};
+	}
+
+	const { name, maxRuns } = getMatchFormat(format);
+	if (runs < 0) return { error: "Runs can't be negative." };
+	if (runs > maxRuns) {
+		return { error: `${runs} runs is not a realistic ${name} innings total (at most ${maxRuns}).` };
+	}
+	if (wickets < 0 || wickets > 10) return { error: 'Wickets must be between 0 and 10.' };
+	return { score: { runs, wickets }, allOutAssumed };
+}
+
+export type ScoringRuleId =
+	| 'runs-only'
+	| 'weighted-wickets'
+	| 'closest-under'
+	| 'exact-bonus'
+	| 'tiered-points';
+
+export interface ScoringRule {
+	id: ScoringRuleId;
+	name: string;
+	description: string;
+	// true when the result is an error (lower wins), false when it is points (higher wins)
+	lowerIsBetter: boolean;
+	evaluate(pred: Score, actual: Score): number;
+}
+
+const runsDiff = (pred: Score, actual: Score) => Math.abs(pred.runs - actual.runs);
+const wicketsDiff = (pred: Score, actual: Score) => Math.abs(pred.wickets - actual.wickets);
+
+const RULES: Record<ScoringRuleId, ScoringRule> = {
+	'runs-only': {
+		id: 'runs-only',
+		name: 'Runs only',
+		description: 'Error is the runs difference; wickets are ignored.',
+		lowerIsBetter: true,
+		evaluate: runsDiff,
+	},
+	'weighted-wickets': {
+		id: 'weighted-wickets',
+		name: 'Weighted wickets',
+		description: 'Error is the runs difference plus 5 per wicket off.',
+		lowerIsBetter: true,
+		evaluate: (pred, actual) => runsDiff(pred, actual) + 5 * wicketsDiff(pred, actual),
+	},
+	'closest-under': {
+		id: 'closest-under',
+		name: 'Closest without going over',
+		description:
+			'Error is how many runs short you were. Going over counts as your whole prediction, so it loses to any score under.',
+		lowerIsBetter: true,
+		evaluate: (pred, actual) =>
+			pred.runs > actual.runs ? pred.runs : actual.runs - pred.runs,
+	},
+	'exact-bonus': {
+		id: 'exact-bonus',
+		name: 'Exact-hit bonus',
+		description:
+			'Weighted wickets error, minus 25 for exact runs and minus 10 for exact wickets.',
+		lowerIsBetter: true,
+		evaluate: (pred, actual) =>
+			runsDiff(pred, actual) +
+			5 * wicketsDiff(pred, actual) -
+			(pred.runs === actual.runs ? 25 : 0) -
+			(pred.wickets === actual.wickets ? 10 : 0),
+	},
+	'tiered-points': {
+		id: 'tiered-points',
+		name: 'Tiered points',
+		description:
+			'Points by runs difference: exact 10, within 5 gets 7, 10 gets 5, 20 gets 3, 30 gets 1. Plus 2 for exact wickets.',
+		lowerIsBetter: false,
+		evaluate: (pred, actual) => {
+			const diff = runsDiff(pred, actual);
+			const tiers: [number, number][] = [
+				[0, 10],
+				[5, 7],
+				[10, 5],
+				[20, 3],
+				[30, 1],
+			];
+			const tier = tiers.find(([maxDiff]) => diff <= maxDiff);
+			return (tier ? tier[1] : 0) + (pred.wickets === actual.wickets ? 2 : 0);
+		},
+	},
+};
+
+// Rule used for matches and seasons that don't choose one (the original v1 scoring)
+export const DEFAULT_SCORING_RULE: ScoringRuleId = 'weighted-wickets';
+
+export const SCORING_RULES: ScoringRule[] = Object.values(RULES);
+
+export function isScoringRuleId(id: string): id is ScoringRuleId {
+	return id in RULES;
+}
+
+export function getScoringRule(id: string): ScoringRule {
+	return isScoringRuleId(id) ? RULES[id] : RULES[DEFAULT_SCORING_RULE];
+}
+
+// Sort comparator for results under a rule: negative when a is better than b
+export function compareResults(rule: ScoringRule, a: number, b: number): number {
+	return rule.lowerIsBetter ? a - b : b - a;
+}
+
+// Helper: describe a result, e.g. "error 12" or "7 pts"
+export function formatResult(rule: ScoringRule, value: number): string {
+	const rounded = Number.isInteger(value) ? value.toString() : value.toFixed(2);
+	return rule.lowerIsBetter ? `error ${rounded}` : `${rounded} pts`;
+}
+
+// How equal results are split when settling a match
+export type Tiebreaker = 'shared' | 'earliest' | 'fewest-edits';
+
+export const TIEBREAKERS: { id: Tiebreaker; name: string }[] = [
+	{ id: 'shared', name: 'Shared win' },
+	{ id: 'earliest', name: 'Earliest submission' },
+	{ id: 'fewest-edits', name: 'Fewest edits' },
+];
+
+export const DEFAULT_TIEBREAKER: Tiebreaker = 'shared';
+
+export function getTiebreaker(id: string | null): Tiebreaker {
+	return TIEBREAKERS.find((t) => t.id === id)?.id ?? DEFAULT_TIEBREAKER;
+}
+
+export function tiebreakerName(id: Tiebreaker): string {
+	return TIEBREAKERS.find((t) => t.id === id)!.name;
+}
+
+export interface RankedPrediction<T> {
+	prediction: T;
+	result: number;
+	// Competition ranking: equal entries share a rank and the next rank is skipped (1, 1, 3)
+	rank: number;
+}
+
+// Rank predictions against the actual score. Entries only share a rank when both their
+// result and the tiebreaker key are equal; predictions without a timestamp count as latest.
+export function rankPredictions<
+	T extends Score & { updatedAt: number | null; editCount: number }
+>(
+	predictions: T[],
+	actual: Score,
+	rule: ScoringRule,
+	tiebreaker: Tiebreaker
+): RankedPrediction<T>[] {
+	const tiebreakKey = (p: T): number => {
+		if (tiebreaker === 'earliest') return p.updatedAt ?? Infinity;
+		if (tiebreaker === 'fewest-edits') return p.editCount;
+		return 0;
+	};
+	const compare = (a: RankedPrediction<T>, b: RankedPrediction<T>) =>
+		compareResults(rule, a.result, b.result) ||
+		tiebreakKey(a.prediction) - tiebreakKey(b.prediction) ||
+		0;
+
+	const ranked = predictions
+		.map((prediction) => ({
+			prediction,
+			result: rule.evaluate({ runs: prediction.runs, wickets: prediction.wickets }, actual),
+			rank: 0,
+		}))
+		.sort(compare);
+	ranked.forEach((entry, idx) => {
+		entry.rank =
+			idx > 0 && compare(ranked[idx - 1], entry) === 0 ? ranked[idx - 1].rank : idx + 1;
+	});
+	return ranked;
+}
@@ -0,0 +1,14 @@
+import { getSetting } from './db';
+import { DEFAULT_SCORING_RULE, ScoringRule, getScoringRule } from './scoring';
+
+// Guild settings with their defaults, for commands, the HTTP API and reports
+
+// The guild's season scoring rule, used by /setup when no rule is given and by /leaderboard
+export function getSeasonScoringRule(guildId: string): ScoringRule {
+	return getScoringRule(getSetting(guildId, 'scoringRule') ?? DEFAULT_SCORING_RULE);
+}
+
+// The guild's time zone for start times, falling back to the bot's (the TZ env var)
+export function getGuildTimeZone(guildId: string): string | undefined {
+	return getSetting(guildId, 'timeZone') ?? undefined;
+}
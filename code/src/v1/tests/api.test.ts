@@ -0,0 +1,106 @@
+// The fake goes first: it points the database at memory before anything opens it
+import { ADMIN, ALICE, BOB, GUILD_ID, resetDatabase, run, setupMatch } from './fake';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiResponse, handleApiRequest } from '../api';
+
+const TOKEN = 'secret-token';
+
+// Helper: a GET request to the API, with the token when admin is set
+function get(path: string, { admin = false, token = TOKEN } = {}): ApiResponse {
+	return handleApiRequest(
+		{ method: 'GET', url: path, authorization: admin ? `Bearer ${TOKEN}` : undefined },
+		{ token, isReady: () => true }
+	);
+}
+
+describe('HTTP API', () => {
+	beforeEach(resetDatabase);
+
+	it('reports health and readiness', () => {
+		assert.deepEqual(get('/health'), { status: 200, body: { status: 'ok' } });
+		assert.equal(get('/ready').status, 200);
+		const starting = handleApiRequest({ method: 'GET', url: '/ready' }, { isReady: () => false });
+		assert.deepEqual(starting, { status: 503, body: { ready: false, database: true, discord: false } });
+	});
+
+	it('serves the current match, its details and the leaderboard', async () => {
+		const matchId = await setupMatch();
+		await run('predict', ALICE, { score: '180/4' });
+		await run('predict', BOB, { score: '200/6' });
+
+		const current = get(`/api/guilds/${GUILD_ID}/matches/current`).body as {
+			matches: { match: { id: string }; predictions: { username: string; runs: number }[] }[];
+		};
+		assert.equal(current.matches.length, 1);
+		assert.equal(current.matches[0].match.id, matchId);
+		assert.deepEqual(
+			current.matches[0].predictions.map((p) => [p.username, p.runs]),
+			[
+				['alice', 180],
+				['bob', 200],
+			]
+		);
+
+		await run('close', ADMIN);
+		await run('end', ADMIN, { score: '172/5' });
+		const past = get(`/api/guilds/${GUILD_ID}/matches/past`).body as { matches: { id: string }[] };
+		assert.deepEqual(
+			past.matches.map((m) => m.id),
+			[matchId]
+		);
+		const leaderboard = get(`/api/guilds/${GUILD_ID}/leaderboard`).body as {
+			entries: { rank: number; username: string; wins: number }[];
+		};
+		assert.deepEqual(
+			leaderboard.entries.map((e) => [e.rank, e.username, e.wins]),
+			[
+				[1, 'alice', 1],
+				[2, 'bob', 0],
+			]
+		);
+		const stats = get(`/api/guilds/${GUILD_ID}/users/${ALICE.id}/stats`).body;
+		assert.deepEqual(stats, {
+			userId: ALICE.id,
+			predictions: 1,
+			rules: [{ scoringRule: 'weighted-wickets', name: 'Weighted wickets', predictions: 1, average: 13 }],
+		});
+	});
+
+	it('keeps other guilds and bad input out', async () => {
+		const matchId = await setupMatch();
+		assert.equal(get(`/api/guilds/${GUILD_ID}/matches/${matchId}`).status, 200);
+		assert.equal(get(`/api/guilds/guild-2/matches/${matchId}`).status, 404);
+		assert.equal(get(`/api/guilds/${GUILD_ID}/leaderboard?from=22-03-2025`).status, 400);
+		assert.equal(get(`/api/guilds/${GUILD_ID}/leaderboard?scoring=nope`).status, 400);
+		assert.equal(get('/api/unknown').status, 404);
+		const post = handleApiRequest({ method: 'POST', url: '/health' }, { isReady: () => true });
+		assert.equal(post.status, 405);
+	});
+
+	it('hides sealed predictions and admin data without the token', async () => {
+		const matchId = await setupMatch({ sealed: true });
+		await run('predict', ALICE, { score: '180/4' });
+		const path = `/api/guilds/${GUILD_ID}/matches/${matchId}`;
+
+		const open = get(path).body as { sealed: boolean; predictions: object[]; history?: object[] };
+		assert.equal(open.sealed, true);
+		assert.deepEqual(Object.keys(open.predictions[0]).sort(), ['submittedAt', 'userId', 'username']);
+		assert.equal(open.history, undefined);
+
+		const admin = get(path, { admin: true }).body as { predictions: { runs: number }[]; history: object[] };
+		assert.equal(admin.predictions[0].runs, 180);
+		assert.equal(admin.history.length, 1);
+
+		assert.equal(get(`/api/guilds/${GUILD_ID}/admins`).status, 401);
+		assert.equal(get(`/api/guilds/${GUILD_ID}/admins`, { admin: true }).status, 200);
+		assert.equal(get(`/api/guilds/${GUILD_ID}/export`, { admin: true }).status, 200);
+		const wrongToken = handleApiRequest(
+			{ method: 'GET', url: path, authorization: 'Bearer wrong' },
+			{ token: TOKEN, isReady: () => true }
+		);
+		assert.equal(wrongToken.status, 401);
+		// Without API_TOKEN configured there is no admin access at all
+		assert.equal(get(`/api/guilds/${GUILD_ID}/admins`, { token: '' }).status, 403);
+	});
+});
@@ -0,0 +1,4 @@
+// Imported before anything that touches the database: tests run on a throwaway in-memory
+// database, and nobody gets full rights from the ADMINS env var
+process.env.DB_PATH = ':memory:';
+delete process.env.ADMINS;
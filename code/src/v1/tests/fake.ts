@@ -0,0 +1,153 @@
+import './env';
+import assert from 'node:assert/strict';
+import { openDatabase } from '../db';
+import { runCommand } from '../commands';
+import { CommandContext, CommandUser, ReplyFile, ReplyMessage } from '../commands/types';
+import { PermissionSubject, hasCapability, hasFullRights, isAnyAdmin } from '../permissions';
+
+// A fake interaction for driving commands offline. Replies, deferred replies and pages are
+// recorded in order instead of going to Discord.
+
+export const GUILD_ID = 'guild-1';
+
+export interface FakeUser extends CommandUser {
+	roleIds?: string[];
+	// Administrator or Manage Server permission
+	managesGuild?: boolean;
+}
+
+export const ADMIN: FakeUser = { id: 'admin-1', username: 'admin', managesGuild: true };
+export const ALICE: FakeUser = { id: 'user-1', username: 'alice' };
+export const BOB: FakeUser = { id: 'user-2', username: 'bob' };
+
+export interface RecordedReply {
+	content: string;
+	ephemeral: boolean;
+	followUp: boolean;
+	files: ReplyFile[];
+}
+
+// Users, roles and channels are passed by ID, attachments by URL
+export type OptionValue = string | number | boolean | CommandUser | { id: string } | { url: string };
+
+export interface FakeContext extends CommandContext {
+	replies: RecordedReply[];
+}
+
+export function fakeContext(
+	user: FakeUser,
+	options: { [name: string]: OptionValue } = {},
+	guildId = GUILD_ID
+): FakeContext {
+	const subject: PermissionSubject = {
+		userId: user.id,
+		guildId,
+		roleIds: user.roleIds ?? [],
+		managesGuild: user.managesGuild ?? false,
+	};
+	const replies: RecordedReply[] = [];
+	let replied = false;
+	let deferred = false;
+	const get = <T>(name: string, required?: boolean): T => {
+		if (required && options[name] === undefined) throw new Error(`Missing required option ${name}`);
+		return (options[name] ?? null) as T;
+	};
+	const record = (content: string, extra: Partial<RecordedReply> = {}) =>
+		replies.push({ content, ephemeral: false, followUp: false, files: [], ...extra });
+	const recordMessage = (message: string | ReplyMessage, followUp = false) => {
+		if (typeof message === 'string') {
+			record(message, { followUp });
+		} else {
+			record(message.content ?? '', {
+				ephemeral: message.ephemeral ?? false,
+				followUp,
+				files: message.files ?? [],
+			});
+		}
+	};
+	return {
+		guildId,
+		channelId: 'channel-1',
+		user: { id: user.id, username: user.username },
+		options: {
+			getString: get,
+			getInteger: get,
+			getBoolean: get,
+			getUser: get,
+			getRole: get,
+			getChannel: get,
+			getAttachment: get,
+			getSubcommand: () => get<string>('subcommand', true),
+		} as CommandContext['options'],
+		can: (capability) => hasCapability(subject, capability),
+		isAdmin: isAnyAdmin(subject),
+		hasFullRights: hasFullRights(subject),
+		replies,
+		get replied() {
+			return replied;
+		},
+		get deferred() {
+			return deferred;
+		},
+		// Like Discord, an interaction is answered once; everything after that is a follow-up
+		reply: async (message) => {
+			if (replied || deferred) throw new Error('The interaction was already answered.');
+			replied = true;
+			recordMessage(message);
+		},
+		deferReply: async () => {
+			if (replied || deferred) throw new Error('The interaction was already answered.');
+			deferred = true;
+		},
+		editReply: async (content) => {
+			if (!replied && !deferred) throw new Error('The interaction was not answered yet.');
+			replied = true;
+			record(content, { ephemeral: true });
+		},
+		followUp: async (message) => {
+			if (!replied && !deferred) throw new Error('The interaction was not answered yet.');
+			recordMessage(message, true);
+		},
+		// Pages are flattened to their titles and text, one page after another
+		sendPages: async (pages, { ephemeral = false, followUp = false } = {}) => {
+			if (followUp ? !replied && !deferred : replied || deferred) {
+				throw new Error(followUp ? 'The interaction was not answered yet.' : 'The interaction was already answered.');
+			}
+			replied = true;
+			record(pages.map((page) => `${page.data.title}\n${page.data.description}`).join('\n'), {
+				ephemeral,
+				followUp,
+			});
+		},
+	};
+}
+
+// Run a command as a user and return everything it replied
+export async function run(
+	name: string,
+	user: FakeUser,
+	options: { [name: string]: OptionValue } = {}
+): Promise<RecordedReply[]> {
+	const ctx = fakeContext(user, options);
+	await runCommand(name, ctx);
+	return ctx.replies;
+}
+
+// Set up a CSK v MI match as the admin and return its ID; options override the defaults
+export async function setupMatch(options: { [name: string]: OptionValue } = {}): Promise<string> {
+	const [reply] = await run('setup', ADMIN, {
+		batting: 'CSK',
+		bowling: 'MI',
+		venue: 'Chepauk',
+		start: '2030-04-01',
+		...options,
+	});
+	const id = /ID: (\d+)/.exec(reply.content)?.[1];
+	assert.ok(id, `no match ID in "${reply.content}"`);
+	return id;
+}
+
+// Start every test on an empty database
+export function resetDatabase(): void {
+	openDatabase(':memory:');
+}
@@ -0,0 +1,229 @@
+// The fake goes first: it points the database at memory before anything opens it
+import { ADMIN, ALICE, BOB, GUILD_ID, fakeContext, resetDatabase, run, setupMatch } from './fake';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCommand } from '../commands';
+import { getActiveMatches, getMatch, getPrediction } from '../db';
+
+describe('match flow', () => {
+	beforeEach(resetDatabase);
+
+	it('runs setup, predict, edit, close, end and leaderboard', async () => {
+		const matchId = await setupMatch();
+		assert.equal(getMatch(matchId)?.status, 'open');
+		assert.equal(getMatch(matchId)?.guildId, GUILD_ID);
+
+		const [saved] = await run('predict', ALICE, { score: '180/4' });
+		assert.match(saved.content, /Prediction saved for CSK v MI: 180\/4/);
+		assert.equal(saved.ephemeral, true);
+		await run('predict', BOB, { score: '200 for 6', comment: 'flat pitch' });
+
+		const [edited] = await run('edit', ALICE, { score: '170-5' });
+		assert.match(edited.content, /Prediction updated .*: 170\/5/);
+		assert.equal(getPrediction(matchId, ALICE.id)?.editCount, 1);
+
+		const [list] = await run('list', ALICE);
+		assert.match(list.content, /\*\*alice\*\*: 170\/5/);
+		assert.match(list.content, /\*\*bob\*\*: 200\/6 - flat pitch/);
+
+		const [closed] = await run('close', ADMIN);
+		assert.match(closed.content, /Poll closed/);
+		assert.equal(getMatch(matchId)?.status, 'locked');
+		const [late] = await run('predict', BOB, { score: '150/3' });
+		assert.equal(late.content, 'Predictions are closed for this match.');
+		const [lockedList, crowdView] = await run('list', ALICE);
+		assert.match(lockedList.content, /\(locked\)/);
+		assert.match(crowdView.content, /Mean 185 \| median 185 \| range 170-200 \| std dev 15/);
+		assert.match(crowdView.content, /170-174 \| █+ 1\n175-179 \|\n(.*\|\n){4}200-204 \| █+ 1/);
+
+		const [ended, endCrowd] = await run('end', ADMIN, { score: '172/5' });
+		assert.match(ended.content, /Actual score: 172\/5/);
+		assert.match(ended.content, /alice \(170\/5\) wins!/);
+		assert.match(ended.content, /1\. alice: 170\/5 \(error 2\)\n2\. bob: 200\/6 \(error 33\)/);
+		assert.equal(endCrowd.followUp, true);
+		assert.match(endCrowd.content, /Consensus pick: 185\/6/);
+		assert.match(endCrowd.content, /185\/6 \(error 18\) would have ranked 2nd of 3 - the crowd lost to alice \(error 2\)/);
+		assert.equal(getMatch(matchId)?.status, 'settled');
+		assert.deepEqual(getActiveMatches(GUILD_ID), []);
+
+		const [leaderboard] = await run('leaderboard', BOB);
+		assert.match(leaderboard.content, /1\. \*\*alice\*\*: average error 2 \| 1 played \| 1 won/);
+		assert.match(leaderboard.content, /2\. \*\*bob\*\*: average error 33 \| 1 played \| 0 won/);
+	});
+
+	it('rejects unreadable and unrealistic scores', async () => {
+		await setupMatch();
+		const [unreadable] = await run('predict', ALICE, { score: 'lots' });
+		assert.match(unreadable.content, /Couldn't read "lots" as a score/);
+		const [tooMany] = await run('predict', ALICE, { score: '180/11' });
+		assert.equal(tooMany.content, 'Wickets must be between 0 and 10.');
+		const [tooHigh] = await run('predict', ALICE, { score: '999/2' });
+		assert.match(tooHigh.content, /not a realistic T20 innings total/);
+	});
+
+	it('asks for a match when several are running', async () => {
+		const first = await setupMatch();
+		const second = await setupMatch({ batting: 'RCB', bowling: 'KKR' });
+		const [ambiguous] = await run('predict', ALICE, { score: '180/4' });
+		assert.match(ambiguous.content, /Several matches are running/);
+		const [saved] = await run('predict', ALICE, { score: '180/4', match: first });
+		assert.match(saved.content, /Prediction saved for CSK v MI/);
+		assert.notEqual(second, first);
+	});
+
+	it('drops the automatic lock when /editmatch moves the start to a date', async () => {
+		const matchId = await setupMatch({ start: '2030-04-01 19:30' });
+		assert.equal(getMatch(matchId)?.autoLock, 1);
+		const [past] = await run('editmatch', ADMIN, { start: '2020-04-01 19:30' });
+		assert.equal(past.content, 'The start time is in the past.');
+		assert.equal(getMatch(matchId)?.matchDate, '2030-04-01');
+
+		const [moved] = await run('editmatch', ADMIN, { start: '2030-04-02' });
+		assert.match(moved.content, /no longer lock automatically/);
+		const match = getMatch(matchId);
+		assert.equal(match?.matchDate, '2030-04-02');
+		assert.equal(match?.startsAt, null);
+		assert.equal(match?.autoLock, 0);
+	});
+
+	it('keeps results of a big server within message limits', async () => {
+		await setupMatch({ questions: 'winner' });
+		for (let i = 0; i < 40; i++) {
+			const member = { id: `member-${i}`, username: `member${i}` };
+			await run('predict', member, { score: `${150 + i}/5` });
+			await run('question', member, { subcommand: 'answer', question: 1, answer: 'CSK' });
+		}
+		await run('close', ADMIN);
+		const [settled] = await run('question', ADMIN, { subcommand: 'settle', question: 1, answer: 'CSK' });
+		assert.ok(settled.content.length <= 2000);
+		assert.match(settled.content, /member17 \(\+10\) and 30 more$/);
+
+		const [ended, crowd, questions] = await run('end', ADMIN, { score: '172/5' });
+		assert.ok(ended.content.length <= 2000, `/end replied ${ended.content.length} characters`);
+		assert.doesNotMatch(ended.content, /Who will win/);
+		assert.doesNotMatch(ended.content, /Wisdom of the crowd/);
+		assert.match(crowd.content, /^Wisdom of the crowd - CSK v MI \(40 predictions\)\n/);
+		assert.equal(questions.followUp, true);
+		assert.match(questions.content, /^Extra questions - CSK v MI\n.*and 30 more/);
+	});
+
+	it('caps the winners and podium of a big tie', async () => {
+		await setupMatch();
+		for (let i = 0; i < 60; i++) {
+			await run('predict', { id: `member-${i}`, username: `member${i}` }, { score: '180/6' });
+		}
+		await run('close', ADMIN);
+		const [ended] = await run('end', ADMIN, { score: '172/5' });
+		assert.ok(ended.content.length <= 2000, `/end replied ${ended.content.length} characters`);
+		assert.match(ended.content, /Shared win: .* and 50 more\n/);
+		assert.match(ended.content, /\n\.\.\.and 50 more$/);
+	});
+
+	it('exports sealed picks only privately while the poll is open', async () => {
+		await setupMatch({ sealed: true });
+		await run('predict', ALICE, { score: '180/4' });
+		const [open] = await run('export', ADMIN, { format: 'json' });
+		assert.equal(open.ephemeral, true);
+		assert.match(open.content, /Sent only to you/);
+		await run('close', ADMIN);
+		const [closed] = await run('export', ADMIN, { format: 'json' });
+		assert.equal(closed.ephemeral, false);
+		assert.match(closed.files[0].content, /"runs": 180/);
+	});
+
+	it('keeps matches of other guilds out of reach', async () => {
+		const matchId = await setupMatch();
+		const [details] = await run('details', ALICE, { matchid: matchId });
+		assert.match(details.content, /Match ID: /);
+		const elsewhere = fakeContext(ALICE, { matchid: matchId }, 'guild-2');
+		await runCommand('details', elsewhere);
+		assert.equal(elsewhere.replies[0].content, 'Match ID not found.');
+	});
+
+	it('builds an HTML season report of settled matches', async () => {
+		await setupMatch();
+		const [empty] = await run('report', ADMIN);
+		assert.equal(empty.content, 'No settled matches found for those filters.');
+
+		await run('predict', ALICE, { score: '180/4', comment: '<b>easy</b>' });
+		await run('predict', BOB, { score: '200/6' });
+		await run('close', ADMIN);
+		await run('end', ADMIN, { score: '172/5' });
+		const [reply] = await run('report', ADMIN, { title: 'IPL & friends' });
+		const [report] = reply.files;
+		assert.equal(report.name, 'season-report.html');
+		assert.match(report.content, /^<!DOCTYPE html>/);
+		assert.match(report.content, /<h1>IPL &amp; friends<\/h1>/);
+		assert.match(report.content, /<td>1<\/td><td>alice<\/td><td>180\/4<\/td><td>error 13<\/td><td>&lt;b&gt;easy&lt;\/b&gt;<\/td>/);
+		assert.match(report.content, /Actual score: 172\/5/);
+		assert.equal(report.content.match(/<svg /g)?.length, 2);
+	});
+
+	it('answers instead of crashing when a command fails', async () => {
+		const ctx = fakeContext(ALICE);
+		ctx.options.getInteger = () => {
+			throw new Error('boom');
+		};
+		const logged = console.error;
+		console.error = () => {};
+		try {
+			await runCommand('leaderboard', ctx);
+		} finally {
+			console.error = logged;
+		}
+		assert.deepEqual(
+			ctx.replies.map((r) => [r.content, r.ephemeral]),
+			[['Something went wrong. Please try again.', true]]
+		);
+	});
+
+	it('reports a failure after the reply as a follow-up', async () => {
+		await setupMatch();
+		await run('predict', ALICE, { score: '180/4' });
+		await run('predict', BOB, { score: '200/6' });
+		await run('close', ADMIN);
+		const ctx = fakeContext(ADMIN, { score: '172/5' });
+		ctx.sendPages = async () => {
+			throw new Error('boom');
+		};
+		const logged = console.error;
+		console.error = () => {};
+		try {
+			await runCommand('end', ctx);
+		} finally {
+			console.error = logged;
+		}
+		assert.deepEqual(
+			ctx.replies.map((r) => [r.content.split('\n')[0], r.ephemeral, r.followUp]),
+			[
+				['Actual score: 172/5', false, false],
+				['Something went wrong. Please try again.', true, true],
+			]
+		);
+	});
+
+	it('reports a failure after deferring in the deferred reply', async () => {
+		const json = JSON.stringify({ matches: [], predictions: [] });
+		const ctx = fakeContext(ADMIN, { file: { url: `data:application/json,${encodeURIComponent(json)}` } });
+		const editReply = ctx.editReply;
+		let failed = false;
+		ctx.editReply = async (content) => {
+			if (!failed) {
+				failed = true;
+				throw new Error('boom');
+			}
+			await editReply(content);
+		};
+		const logged = console.error;
+		console.error = () => {};
+		try {
+			await runCommand('import', ctx);
+		} finally {
+			console.error = logged;
+		}
+		assert.deepEqual(
+			ctx.replies.map((r) => [r.content, r.ephemeral]),
+			[['Something went wrong. Please try again.', true]]
+		);
+	});
+});
@@ -0,0 +1,37 @@
+// The fake goes first: it points the database at memory before anything opens it
+import { ALICE, BOB, GUILD_ID, resetDatabase, run, setupMatch } from './fake';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMatch, getPrediction, getPredictionHistory, getQuestionsForMatch } from '../db';
+import { buildExport, exportToJson } from '../export';
+import { applyImport, parseImport } from '../import';
+
+describe('export and import', () => {
+	beforeEach(resetDatabase);
+
+	it('restores matches, predictions and their history in replace mode', async () => {
+		const matchId = await setupMatch({ questions: 'winner' });
+		await run('predict', ALICE, { score: '180/4' });
+		await run('predict', ALICE, { score: '175/5' });
+		await run('predict', BOB, { score: '200/6' });
+		const match = getMatch(matchId);
+		const alice = getPrediction(matchId, ALICE.id);
+		const history = getPredictionHistory(matchId);
+		assert.equal(alice?.editCount, 1);
+		assert.equal(history.length, 3);
+
+		const parsed = parseImport(JSON.parse(exportToJson(buildExport({ guildId: GUILD_ID })).content));
+		assert.ok(!('errors' in parsed), 'the export does not import');
+		const report = applyImport(parsed, 'replace', GUILD_ID);
+		assert.deepEqual(
+			[report.matchesAdded, report.predictionsAdded, report.questionsAdded, report.conflicts],
+			[1, 2, 1, []]
+		);
+
+		assert.deepEqual(getMatch(matchId), match);
+		assert.deepEqual(getPrediction(matchId, ALICE.id), alice);
+		const strip = ({ id: _id, ...entry }: { id: number }) => entry;
+		assert.deepEqual(getPredictionHistory(matchId).map(strip), history.map(strip));
+		assert.equal(getQuestionsForMatch(matchId).length, 1);
+	});
+});
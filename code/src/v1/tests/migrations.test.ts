@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { MIGRATIONS, runMigrations } from '../migrations';
+
+// Schema of the original bot (code/src/db.ts), which scored on runs alone
+const ORIGINAL_SCHEMA = `
+	CREATE TABLE matches (
+		id TEXT PRIMARY KEY,
+		teamName TEXT NOT NULL,
+		toss TEXT NOT NULL,
+		venue TEXT NOT NULL,
+		matchDate TEXT NOT NULL,
+		isOpen INTEGER NOT NULL,
+		actualRuns INTEGER,
+		actualWickets INTEGER
+	);
+	CREATE TABLE predictions (
+		matchId TEXT,
+		userId TEXT,
+		username TEXT,
+		runs INTEGER,
+		wickets INTEGER,
+		PRIMARY KEY (matchId, userId)
+	);
+`;
+
+describe('schema migrations', () => {
+	it('creates a new database at the latest version', () => {
+		const db = new Database(':memory:');
+		const applied = runMigrations(db, ':memory:');
+		assert.deepEqual(
+			applied,
+			MIGRATIONS.map((m) => m.version)
+		);
+		assert.deepEqual(runMigrations(db, ':memory:'), []);
+	});
+
+	it("keeps runs-only scoring for the original bot's settled matches", () => {
+		const db = new Database(':memory:');
+		db.exec(ORIGINAL_SCHEMA);
+		db.exec(`
+			INSERT INTO matches VALUES ('1', 'CSK', 'bat', 'Chepauk', '2024-04-01', 0, 172, 5);
+			INSERT INTO matches VALUES ('2', 'MI', 'bowl', 'Wankhede', '2024-04-03', 1, NULL, NULL);
+		`);
+		runMigrations(db, ':memory:');
+		const rows = db.prepare(`SELECT id, status, scoringRule FROM matches ORDER BY id`).all();
+		assert.deepEqual(rows, [
+			{ id: '1', status: 'settled', scoringRule: 'runs-only' },
+			{ id: '2', status: 'open', scoringRule: 'weighted-wickets' },
+		]);
+	});
+
+	it('backs up an existing database before each migration', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+		const file = path.join(dir, 'cricket.db');
+		const log = console.log;
+		console.log = () => {};
+		try {
+			const db = new Database(file);
+			db.exec(ORIGINAL_SCHEMA);
+			runMigrations(db, file);
+			db.close();
+			const backups = fs.readdirSync(dir).filter((name) => name.endsWith('.bak'));
+			assert.deepEqual(
+				backups.map((name) => /\.v(\d+)-\d+\.bak$/.exec(name)?.[1]).sort((a, b) => Number(a) - Number(b)),
+				MIGRATIONS.map((m) => String(m.version - 1))
+			);
+		} finally {
+			console.log = log;
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('keeps weighted scoring for matches settled by the v1 bot', () => {
+		const db = new Database(':memory:');
+		db.exec(ORIGINAL_SCHEMA);
+		db.exec(`
+			ALTER TABLE predictions ADD COLUMN comment TEXT;
+			INSERT INTO matches VALUES ('1', 'CSK', 'bat', 'Chepauk', '2024-04-01', 0, 172, 5);
+		`);
+		runMigrations(db, ':memory:');
+		assert.deepEqual(db.prepare(`SELECT scoringRule FROM matches`).get(), {
+			scoringRule: 'weighted-wickets',
+		});
+	});
+});
@@ -0,0 +1,127 @@
+// The fake goes first: it points the database at memory before anything opens it
+import { ADMIN, ALICE, BOB, FakeUser, GUILD_ID, OptionValue, resetDatabase, run } from './fake';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCommands } from '../commands';
+import { addAdminGrant } from '../db';
+
+const MODERATOR_ROLE = 'role-1';
+const MODERATOR: FakeUser = { id: 'user-3', username: 'mod', roleIds: [MODERATOR_ROLE] };
+
+// Helper: the single reply of a command, which must be a private rejection
+async function assertRejected(
+	name: string,
+	user: FakeUser,
+	options: { [name: string]: OptionValue },
+	message: string | RegExp
+): Promise<void> {
+	const replies = await run(name, user, options);
+	assert.equal(replies.length, 1, `/${name} replied ${replies.length} times`);
+	if (typeof message === 'string') assert.equal(replies[0].content, message);
+	else assert.match(replies[0].content, message);
+	assert.equal(replies[0].ephemeral, true);
+}
+
+describe('admin permissions', () => {
+	beforeEach(resetDatabase);
+
+	it('rejects members from every admin command', async () => {
+		const guarded = getCommands().filter((command) => command.permission);
+		assert.ok(guarded.length >= 11);
+		for (const command of guarded) {
+			await assertRejected(command.definition.name, ALICE, {}, command.permission!.denied);
+		}
+	});
+
+	it('rejects members from admin-only options and subcommands', async () => {
+		await run('setup', ADMIN, { batting: 'CSK', venue: 'Chepauk', start: '2030-04-01', sealed: true });
+		await run('predict', ALICE, { score: '180/4' });
+		await assertRejected('list', ALICE, { peek: true }, 'Only admins can peek at sealed predictions.');
+		await assertRejected('history', ALICE, { user: BOB }, "Only admins can view other members' history.");
+		await assertRejected(
+			'scoring',
+			ALICE,
+			{ scoring: 'runs-only' },
+			'Only admins can change the scoring rule or tiebreaker.'
+		);
+		await assertRejected(
+			'question',
+			ALICE,
+			{ subcommand: 'add', prompt: 'Who wins?', type: 'choice' },
+			'Only admins can add questions.'
+		);
+	});
+
+	it('rejects members settling a question', async () => {
+		await run('setup', ADMIN, {
+			batting: 'CSK',
+			bowling: 'MI',
+			venue: 'Chepauk',
+			start: '2030-04-01',
+			questions: 'winner',
+		});
+		await run('close', ADMIN);
+		await assertRejected(
+			'question',
+			ALICE,
+			{ subcommand: 'settle', question: 1, answer: 'CSK' },
+			'Only admins can settle questions.'
+		);
+		await assertRejected(
+			'question',
+			ALICE,
+			{ subcommand: 'settle', question: 1, answer: 'nobody' },
+			'Only admins can settle questions.'
+		);
+		const [settled] = await run('question', ADMIN, { subcommand: 'settle', question: 1, answer: 'CSK' });
+		assert.match(settled.content, /Who will win the match\?\*\* - CSK/);
+	});
+
+	it('limits a role grant to its capability', async () => {
+		addAdminGrant({ guildId: GUILD_ID, targetType: 'role', targetId: MODERATOR_ROLE, capability: 'settle' });
+		await assertRejected(
+			'setup',
+			MODERATOR,
+			{ batting: 'CSK', venue: 'Chepauk', start: '2030-04-01' },
+			'Only admins can setup a match.'
+		);
+		await run('setup', ADMIN, { batting: 'CSK', venue: 'Chepauk', start: '2030-04-01' });
+		await run('close', ADMIN);
+		const [ended] = await run('end', MODERATOR, { score: '160/8' });
+		assert.match(ended.content, /Actual score: 160\/8/);
+		await assertRejected('cancelmatch', MODERATOR, {}, 'Only admins can cancel a match.');
+	});
+
+	it('keeps grants to their own guild', async () => {
+		addAdminGrant({ guildId: 'guild-2', targetType: 'user', targetId: ALICE.id, capability: 'all' });
+		await assertRejected('close', ALICE, {}, 'Only admins can close the poll.');
+	});
+
+	it('only lets members with full rights manage admins and settings', async () => {
+		addAdminGrant({ guildId: GUILD_ID, targetType: 'user', targetId: ALICE.id, capability: 'all' });
+		await assertRejected(
+			'admin',
+			ALICE,
+			{ subcommand: 'add', user: BOB },
+			'Only members with the Manage Server permission can manage admins.'
+		);
+		await assertRejected(
+			'settings',
+			ALICE,
+			{ timezone: 'Europe/London' },
+			'Only members with the Manage Server permission can change server settings.'
+		);
+		const [granted] = await run('admin', ADMIN, { subcommand: 'add', user: BOB });
+		assert.equal(granted.content, `Granted All rights to <@${BOB.id}>.`);
+	});
+
+	it('gives full rights to users in the ADMINS env var', async () => {
+		process.env.ADMINS = ALICE.id;
+		try {
+			const [reply] = await run('settings', ALICE, { timezone: 'Asia/Kolkata' });
+			assert.match(reply.content, /Time zone: Asia\/Kolkata/);
+		} finally {
+			delete process.env.ADMINS;
+		}
+	});
+});